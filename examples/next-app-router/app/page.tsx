@@ -2,7 +2,7 @@
 // -----------------------------
 // This example demonstrates using next-cachex with React Server Components
 
-import { fetchWithCache } from 'next-cachex';
+import { fetchWithCache, cacheHandler } from 'next-cachex';
 import { revalidatePath } from 'next/cache';
 
 // Fetch function that will be cached
@@ -29,7 +29,7 @@ export default async function PostsPage() {
   // Server action to revalidate cache
   async function refreshPosts() {
     'use server';
-    await fetchWithCache.cacheHandler.backend.del('posts:all');
+    await cacheHandler().delete('posts:all');
     revalidatePath('/');
   }
   
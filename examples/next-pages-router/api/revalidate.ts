@@ -74,7 +74,7 @@ export default async function handler(
 
     // Revalidate a specific key
     if (typeof key === 'string') {
-      await cacheHandler.backend.del(key);
+      await cacheHandler.delete(key);
       return res.status(200).json({ 
         revalidated: true, 
         message: `Cache key '${key}' revalidated` 
@@ -83,7 +83,7 @@ export default async function handler(
 
     // Revalidate multiple keys
     if (Array.isArray(keys) && keys.length > 0) {
-      await Promise.all(keys.map(k => cacheHandler.backend.del(k)));
+      await Promise.all(keys.map(k => cacheHandler.delete(k)));
       return res.status(200).json({ 
         revalidated: true, 
         message: `${keys.length} cache keys revalidated` 
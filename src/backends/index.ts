@@ -1,26 +1,34 @@
 import Redis from 'ioredis';
 import { RedisCacheBackend } from './redis';
+import { createResilientBackend, ResilienceOptions } from './resilient';
 import { CacheBackend, CacheConnectionError } from '../types';
 
 // Global Redis client to reuse connections
 let globalRedisClient: Redis | null = null;
 let connectionPromise: Promise<Redis> | null = null;
+// Backends on the global client, whose own connections close with it
+const globalBackends = new Set<RedisCacheBackend<unknown>>();
 
 /**
  * Create a default Redis backend, reusing a global client if available.
  * 
- * @param options - Options for creating the Redis backend
+ * @param options - Options for creating the Redis backend; pass `resilience` to add
+ *   per-operation timeouts and retries (see createResilientBackend), and `clientTracking`
+ *   to let handlers keep L1 entries until Redis reports a change
  * @returns A Redis cache backend instance
  */
 export function createDefaultBackend<T = unknown>(
-  options: { prefix?: string; redisClient?: Redis } = {}
+  options: { prefix?: string; redisClient?: Redis; resilience?: ResilienceOptions; clientTracking?: boolean } = {}
 ): CacheBackend<T> {
-  const { prefix = 'next-cachex', redisClient } = options;
+  const { prefix = 'next-cachex', redisClient, resilience, clientTracking } = options;
   
   // Use provided client or create/reuse global client
   const client = redisClient || getGlobalRedisClient();
   
-  return new RedisCacheBackend<T>(client, prefix);
+  const backend = new RedisCacheBackend<T>(client, prefix, { clientTracking });
+  if (!redisClient) globalBackends.add(backend);
+  // Optionally add per-operation timeouts and retries
+  return resilience ? createResilientBackend(backend, resilience) : backend;
 }
 
 /**
@@ -85,9 +93,14 @@ export function getRedisConnectionPromise(): Promise<Redis> | null {
 }
 
 /**
- * Close the global Redis client (useful for cleanup in tests)
+ * Close the global Redis client, and the pub/sub and tracking connections of the
+ * default backends using it (useful for cleanup in tests)
  */
 export function closeGlobalRedisClient(): void {
+  for (const backend of globalBackends) {
+    backend.close().catch(() => {});
+  }
+  globalBackends.clear();
   if (globalRedisClient) {
     globalRedisClient.disconnect();
     globalRedisClient = null;
@@ -96,4 +109,7 @@ export function closeGlobalRedisClient(): void {
 }
 
 export { RedisCacheBackend } from './redis';
-export { MemoryCacheBackend } from './memory'; 
\ No newline at end of file
+export type { RedisCacheBackendOptions } from './redis';
+export { MemoryCacheBackend } from './memory';
+export { createResilientBackend } from './resilient';
+export type { ResilienceOptions, RetryOptions } from './resilient'; 
\ No newline at end of file
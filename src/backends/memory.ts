@@ -1,4 +1,6 @@
-import { CacheBackend } from '../types';
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { CacheBackend, CacheLock, CacheSetOptions, CacheFencingError } from '../types';
 
 /**
  * In-memory cache backend for testing and development.
@@ -6,7 +8,10 @@ import { CacheBackend } from '../types';
  */
 export class MemoryCacheBackend<T = unknown> implements CacheBackend<T> {
   private store = new Map<string, { value: T; expiresAt?: number }>();
-  private locks = new Map<string, { expiresAt: number }>();
+  private locks = new Map<string, { expiresAt: number; token: string }>();
+  private fences = new Map<string, number>();
+  private tags = new Map<string, Set<string>>();
+  private channels = new EventEmitter().setMaxListeners(0);
 
   /**
    * Get a value from memory cache.
@@ -29,13 +34,41 @@ export class MemoryCacheBackend<T = unknown> implements CacheBackend<T> {
    * Set a value in memory cache with optional TTL.
    * @param key - The cache key
    * @param value - The value to cache
-   * @param options - Optional TTL in seconds
+   * @param options - Optional TTL in seconds, and an optional fencing token
    */
-  async set(key: string, value: T, options?: { ttl?: number }): Promise<void> {
+  async set(key: string, value: T, options?: CacheSetOptions): Promise<void> {
+    if (options?.fencing) {
+      const { lockKey, fence } = options.fencing;
+      const current = this.fences.get(lockKey) ?? 0;
+      if (fence < current) {
+        throw new CacheFencingError(
+          `Rejected write to "${key}": fencing token ${fence} is older than ${current}`
+        );
+      }
+    }
     const expiresAt = options?.ttl ? Date.now() + (options.ttl * 1000) : undefined;
     this.store.set(key, { value, expiresAt });
   }
 
+  /**
+   * Get several values from memory cache.
+   * @param keys - The cache keys
+   * @returns The values in the order of keys, undefined for missing keys
+   */
+  async mget(keys: string[]): Promise<Array<T | undefined>> {
+    return Promise.all(keys.map((key) => this.get(key)));
+  }
+
+  /**
+   * Set several values in memory cache. Writes are not fenced.
+   * @param entries - The keys, values and optional TTLs (seconds) to write
+   */
+  async mset(entries: Array<{ key: string; value: T; ttl?: number }>): Promise<void> {
+    for (const { key, value, ttl } of entries) {
+      await this.set(key, value, { ttl });
+    }
+  }
+
   /**
    * Delete a value from memory cache.
    * @param key - The cache key
@@ -44,33 +77,126 @@ export class MemoryCacheBackend<T = unknown> implements CacheBackend<T> {
     this.store.delete(key);
   }
 
+  /**
+   * Reset the TTL of a value in memory cache.
+   * @param key - The cache key
+   * @param ttl - New TTL in seconds
+   * @returns True if the key exists, false otherwise
+   */
+  async touch(key: string, ttl: number): Promise<boolean> {
+    const item = this.store.get(key);
+    if (!item || (item.expiresAt && Date.now() > item.expiresAt)) return false;
+    item.expiresAt = ttl ? Date.now() + (ttl * 1000) : undefined;
+    return true;
+  }
+
   /**
    * Acquire a lock in memory (with TTL).
    * @param key - The lock key
    * @param ttl - Lock TTL in seconds
-   * @returns True if lock acquired, false otherwise
+   * @returns The held lock with a unique token and fencing token, or null
    */
-  async lock(key: string, ttl: number): Promise<boolean> {
+  async lock(key: string, ttl: number): Promise<CacheLock | null> {
     const now = Date.now();
     const expiresAt = now + (ttl * 1000);
     
     // Check if lock exists and is still valid
     const existingLock = this.locks.get(key);
     if (existingLock && existingLock.expiresAt > now) {
-      return false;
+      return null;
     }
     
     // Acquire the lock
-    this.locks.set(key, { expiresAt });
-    return true;
+    const token = randomUUID();
+    const fence = (this.fences.get(key) ?? 0) + 1;
+    this.locks.set(key, { expiresAt, token });
+    this.fences.set(key, fence);
+    return { token, fence };
+  }
+
+  /**
+   * Release a lock in memory, only if it is held with the given token.
+   * @param key - The lock key
+   * @param token - The token returned by lock
+   */
+  async unlock(key: string, token: string): Promise<void> {
+    if (this.locks.get(key)?.token === token) {
+      this.locks.delete(key);
+    }
   }
 
   /**
-   * Release a lock in memory.
+   * Extend a lock in memory, only if it is held with the given token.
    * @param key - The lock key
+   * @param token - The token returned by lock
+   * @param ttl - New lock TTL in seconds
+   */
+  async extendLock(key: string, token: string, ttl: number): Promise<boolean> {
+    const existingLock = this.locks.get(key);
+    if (!existingLock || existingLock.token !== token || existingLock.expiresAt <= Date.now()) {
+      return false;
+    }
+    existingLock.expiresAt = Date.now() + (ttl * 1000);
+    return true;
+  }
+
+  /**
+   * Record tag membership for keys in memory.
+   * @param keys - The cache keys to tag
+   * @param tags - The tags to add the keys to
+   */
+  async tag(keys: string[], tags: string[]): Promise<void> {
+    for (const tag of tags) {
+      let members = this.tags.get(tag);
+      if (!members) {
+        members = new Set();
+        this.tags.set(tag, members);
+      }
+      for (const key of keys) {
+        members.add(key);
+      }
+    }
+  }
+
+  /**
+   * Delete all keys belonging to the given tags.
+   * @param tags - The tags to invalidate
+   * @returns The keys that were deleted
+   */
+  async invalidateTags(tags: string[]): Promise<string[]> {
+    const deleted = new Set<string>();
+    for (const tag of tags) {
+      const members = this.tags.get(tag);
+      if (!members) continue;
+      for (const key of members) {
+        this.store.delete(key);
+        deleted.add(key);
+      }
+      this.tags.delete(tag);
+    }
+    return Array.from(deleted);
+  }
+
+  /**
+   * Publish a message to in-process subscribers of a channel.
+   * @param channel - The channel to publish to
+   * @param message - The message to publish
+   */
+  async publish(channel: string, message: string): Promise<void> {
+    this.channels.emit(channel, message);
+  }
+
+  /**
+   * Subscribe to a channel in process.
+   * @param channel - The channel to subscribe to
+   * @param listener - Called with each message
+   * @returns A function that removes the subscription
    */
-  async unlock(key: string): Promise<void> {
-    this.locks.delete(key);
+  async subscribe(channel: string, listener: (message: string) => void): Promise<() => Promise<void>> {
+    this.channels.on(channel, listener);
+    return async () => {
+      this.channels.off(channel, listener);
+    };
   }
 
   /**
@@ -79,6 +205,8 @@ export class MemoryCacheBackend<T = unknown> implements CacheBackend<T> {
   async clear(): Promise<void> {
     this.store.clear();
     this.locks.clear();
+    this.fences.clear();
+    this.tags.clear();
   }
 
   /**
@@ -100,5 +228,17 @@ export class MemoryCacheBackend<T = unknown> implements CacheBackend<T> {
         this.locks.delete(key);
       }
     }
+
+    // Drop tag members whose entries are gone
+    for (const [tag, members] of this.tags.entries()) {
+      for (const key of members) {
+        if (!this.store.has(key)) {
+          members.delete(key);
+        }
+      }
+      if (members.size === 0) {
+        this.tags.delete(tag);
+      }
+    }
   }
 }
\ No newline at end of file
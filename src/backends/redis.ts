@@ -1,6 +1,122 @@
-import { CacheBackend, CacheSerializationError, CacheBackendError, CacheConfigError } from '../types';
+import { randomUUID } from 'crypto';
+import {
+  CacheBackend,
+  CacheLock,
+  CacheSetOptions,
+  CacheSubscribeOptions,
+  CacheTrackingListener,
+  CacheSerializationError,
+  CacheBackendError,
+  CacheConfigError,
+  CacheFencingError,
+} from '../types';
 import type Redis from 'ioredis';
 
+/**
+ * Add keys (ARGV[2..]) to tag sets (KEYS), sorted sets scored by when each member
+ * expires, keeping each set alive at least ARGV[1] seconds. A TTL of 0 makes the
+ * members and the set persistent. Members past their expiry are pruned, so a tag
+ * that is written often doesn't collect every key ever tagged.
+ */
+const TAG_SCRIPT = `
+local ttl = tonumber(ARGV[1])
+local now = tonumber(redis.call('TIME')[1])
+local score = ttl > 0 and now + ttl or '+inf'
+for _, tagKey in ipairs(KEYS) do
+  redis.call('ZREMRANGEBYSCORE', tagKey, '-inf', now)
+  -- Read after pruning: a set that pruning emptied is gone and ZADD recreates it without expiry
+  local current = redis.call('TTL', tagKey)
+  for i = 2, #ARGV do
+    redis.call('ZADD', tagKey, score, ARGV[i])
+  end
+  if ttl <= 0 then
+    redis.call('PERSIST', tagKey)
+  elseif current == -2 or (current >= 0 and current < ttl) then
+    redis.call('EXPIRE', tagKey, ttl)
+  end
+end
+return 1
+`;
+
+/**
+ * How many tag members invalidateTags takes and deletes per round trip
+ */
+const INVALIDATE_BATCH_SIZE = 500;
+
+/**
+ * Acquire the lock KEYS[1] for token ARGV[1] with a TTL of ARGV[2] seconds.
+ * On success, increments the fencing counter KEYS[2] (kept for ARGV[3]
+ * seconds) and returns it; returns false when the lock is held.
+ */
+const LOCK_SCRIPT = `
+if redis.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[2], 'NX') then
+  local fence = redis.call('INCR', KEYS[2])
+  redis.call('EXPIRE', KEYS[2], ARGV[3])
+  return fence
+end
+return false
+`;
+
+/**
+ * Delete the lock KEYS[1] only if it still holds token ARGV[1].
+ */
+const UNLOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Reset the TTL of the lock KEYS[1] to ARGV[2] seconds only if it still holds token ARGV[1].
+ */
+const EXTEND_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('EXPIRE', KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+/**
+ * Set KEYS[1] to ARGV[1] (with a TTL of ARGV[2] seconds, 0 for none) unless
+ * the fencing counter KEYS[2] has moved past ARGV[3]. Returns 0 when rejected.
+ */
+const FENCED_SET_SCRIPT = `
+local current = tonumber(redis.call('GET', KEYS[2]) or '0')
+if tonumber(ARGV[3]) < current then
+  return 0
+end
+if tonumber(ARGV[2]) > 0 then
+  redis.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[2])
+else
+  redis.call('SET', KEYS[1], ARGV[1])
+end
+return 1
+`;
+
+/**
+ * How long fencing counters are kept after the last acquisition (seconds)
+ */
+const FENCE_TTL = 86400;
+
+/**
+ * Channel Redis publishes tracking invalidations on when they are redirected
+ */
+const INVALIDATE_CHANNEL = '__redis__:invalidate';
+
+/**
+ * Options for RedisCacheBackend.
+ */
+export interface RedisCacheBackendOptions {
+  /**
+   * Use Redis server-assisted client-side caching (`CLIENT TRACKING`, Redis 6+) in
+   * broadcast mode on the prefix, so handlers can keep L1 entries until they change.
+   * Tracking runs on connections duplicated from the client, never on the client itself.
+   * Adds `track` to the backend. Defaults to false.
+   */
+  clientTracking?: boolean;
+}
+
 /**
  * Redis backend implementation of CacheBackend.
  * All Redis-specific logic is encapsulated here.
@@ -8,10 +124,29 @@ import type Redis from 'ioredis';
 export class RedisCacheBackend<T = unknown> implements CacheBackend<T> {
   private client: Redis;
   private prefix: string;
+  private subscriber?: Redis;
+  private listeners = new Map<string, Set<(message: string) => void>>();
+  private reconnectListeners = new Set<() => void>();
+  private tracker?: Redis;
+  private trackerId?: string;
+  private trackingClient?: Redis;
+  private trackedPrefixes?: string;
+  private trackingListeners = new Set<CacheTrackingListener>();
+  private trackingActive = false;
+  private trackingSync?: Promise<void>;
 
-  constructor(client: Redis, prefix = '') {
+  /**
+   * Watch keys under the prefix with Redis client tracking; see CacheBackend.track.
+   * Only present when constructed with `clientTracking: true`.
+   */
+  readonly track?: (listener: CacheTrackingListener) => Promise<() => Promise<void>>;
+
+  constructor(client: Redis, prefix = '', options: RedisCacheBackendOptions = {}) {
     this.client = client;
     this.prefix = prefix;
+    if (options.clientTracking) {
+      this.track = (listener) => this.addTrackingListener(listener);
+    }
   }
 
   /**
@@ -21,28 +156,7 @@ export class RedisCacheBackend<T = unknown> implements CacheBackend<T> {
   async get(key: string): Promise<T | undefined> {
     const fullKey = this.prefix ? `${this.prefix}:${key}` : key;
     try {
-      const value = await this.client.get(fullKey);
-      if (value === null) return undefined;
-      
-      // Fast path for simple values
-      if (value === 'null') return null as T;
-      if (value === 'undefined') return undefined;
-      if (value === 'true') return true as T;
-      if (value === 'false') return false as T;
-      
-      // Try to parse as number first (common case)
-      const num = Number(value);
-      if (!isNaN(num) && value.trim() === num.toString()) {
-        return num as T;
-      }
-      
-      try {
-        return JSON.parse(value) as T;
-      } catch (error) {
-        throw new CacheSerializationError(
-          `Failed to parse cached value for key "${fullKey}": ${error instanceof Error ? error.message : String(error)}`
-        );
-      }
+      return this.deserialize(fullKey, await this.client.get(fullKey));
     } catch (error) {
       if (error instanceof CacheSerializationError) {
         throw error;
@@ -54,34 +168,50 @@ export class RedisCacheBackend<T = unknown> implements CacheBackend<T> {
     }
   }
 
+  /**
+   * Get several values in one round trip with Redis MGET.
+   * @param keys - The cache keys
+   * @returns The values in the order of keys, undefined for missing keys
+   */
+  async mget(keys: string[]): Promise<Array<T | undefined>> {
+    if (keys.length === 0) return [];
+    const fullKeys = keys.map((key) => (this.prefix ? `${this.prefix}:${key}` : key));
+    let values: Array<string | null>;
+    try {
+      values = await this.client.mget(...fullKeys);
+    } catch (error) {
+      throw new CacheBackendError(
+        `Redis mget operation failed for keys "${fullKeys.join(', ')}": ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+    return values.map((value, index) => this.deserialize(fullKeys[index], value));
+  }
+
   /**
    * Set a value in Redis as JSON, with optional TTL (seconds).
    * @param key - The cache key
    * @param value - The value to cache
-   * @param options - Optional TTL in seconds
+   * @param options - Optional TTL in seconds, and an optional fencing token
    */
-  async set(key: string, value: T, options?: { ttl?: number }): Promise<void> {
+  async set(key: string, value: T, options?: CacheSetOptions): Promise<void> {
     const fullKey = this.prefix ? `${this.prefix}:${key}` : key;
-    let str: string;
-    
-    // Fast path for simple values
-    if (value === null) str = 'null';
-    else if (value === undefined) str = 'undefined';
-    else if (typeof value === 'boolean') str = value.toString();
-    else if (typeof value === 'number') str = value.toString();
-    else if (typeof value === 'string') str = JSON.stringify(value);
-    else {
-      try {
-        str = JSON.stringify(value);
-      } catch (error) {
-        throw new CacheSerializationError(
-          `Failed to stringify value for key "${fullKey}": ${error instanceof Error ? error.message : String(error)}`
-        );
-      }
-    }
-    
+    const str = this.serialize(fullKey, value);
+    let accepted = true;
     try {
-      if (options?.ttl) {
+      if (options?.fencing) {
+        const { lockKey, fence } = options.fencing;
+        const result = await this.client.eval(
+          FENCED_SET_SCRIPT,
+          2,
+          fullKey,
+          this.getFenceKey(lockKey),
+          str,
+          options.ttl ?? 0,
+          fence
+        );
+        accepted = result === 1;
+      } else if (options?.ttl) {
         await this.client.set(fullKey, str, 'EX', options.ttl);
       } else {
         await this.client.set(fullKey, str);
@@ -92,6 +222,44 @@ export class RedisCacheBackend<T = unknown> implements CacheBackend<T> {
         error instanceof Error ? error : undefined
       );
     }
+    if (!accepted) {
+      throw new CacheFencingError(
+        `Rejected write to "${fullKey}": fencing token ${options?.fencing?.fence} is outdated`
+      );
+    }
+  }
+
+  /**
+   * Set several values in one round trip with a Redis pipeline.
+   * Writes are not fenced.
+   * @param entries - The keys, values and optional TTLs (seconds) to write
+   */
+  async mset(entries: Array<{ key: string; value: T; ttl?: number }>): Promise<void> {
+    if (entries.length === 0) return;
+    const pipeline = this.client.pipeline();
+    for (const { key, value, ttl } of entries) {
+      const fullKey = this.prefix ? `${this.prefix}:${key}` : key;
+      const str = this.serialize(fullKey, value);
+      if (ttl) {
+        pipeline.set(fullKey, str, 'EX', ttl);
+      } else {
+        pipeline.set(fullKey, str);
+      }
+    }
+
+    let failure: unknown;
+    try {
+      const results = await pipeline.exec();
+      failure = results?.find(([error]) => error)?.[0];
+    } catch (error) {
+      failure = error;
+    }
+    if (failure) {
+      throw new CacheBackendError(
+        `Redis mset operation failed for ${entries.length} keys: ${failure instanceof Error ? failure.message : String(failure)}`,
+        failure instanceof Error ? failure : undefined
+      );
+    }
   }
 
   /**
@@ -110,18 +278,45 @@ export class RedisCacheBackend<T = unknown> implements CacheBackend<T> {
     }
   }
 
+  /**
+   * Reset the TTL of a value with Redis EXPIRE.
+   * @param key - The cache key
+   * @param ttl - New TTL in seconds
+   * @returns True if the key exists, false otherwise
+   */
+  async touch(key: string, ttl: number): Promise<boolean> {
+    const fullKey = this.prefix ? `${this.prefix}:${key}` : key;
+    try {
+      return await this.client.expire(fullKey, Math.ceil(ttl)) === 1;
+    } catch (error) {
+      throw new CacheBackendError(
+        `Redis touch operation failed for key "${fullKey}": ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
   /**
    * Acquire a distributed lock for a key (atomic, with TTL).
    * @param key - The lock key
    * @param ttl - Lock TTL in seconds
-   * @returns True if lock acquired, false otherwise
+   * @returns The held lock with a unique token and fencing token, or null
    */
-  async lock(key: string, ttl: number): Promise<boolean> {
+  async lock(key: string, ttl: number): Promise<CacheLock | null> {
     const fullKey = this.prefix ? `${this.prefix}:${key}` : key;
+    const token = randomUUID();
     try {
-      // Use SET NX EX for atomic lock
-      const result = await this.client.set(fullKey, '1', 'EX', ttl, 'NX');
-      return result === 'OK';
+      // SET NX EX and INCR of the fencing counter in one atomic script
+      const fence = await this.client.eval(
+        LOCK_SCRIPT,
+        2,
+        fullKey,
+        this.getFenceKey(key),
+        token,
+        ttl,
+        FENCE_TTL
+      );
+      return typeof fence === 'number' ? { token, fence } : null;
     } catch (error) {
       throw new CacheBackendError(
         `Redis lock operation failed for key "${fullKey}": ${error instanceof Error ? error.message : String(error)}`,
@@ -131,13 +326,15 @@ export class RedisCacheBackend<T = unknown> implements CacheBackend<T> {
   }
 
   /**
-   * Release a distributed lock for a key.
+   * Release a distributed lock for a key (compare-and-delete, via Lua),
+   * so a holder whose lock expired cannot release someone else's lock.
    * @param key - The lock key
+   * @param token - The token returned by lock
    */
-  async unlock(key: string): Promise<void> {
+  async unlock(key: string, token: string): Promise<void> {
     const fullKey = this.prefix ? `${this.prefix}:${key}` : key;
     try {
-      await this.client.del(fullKey);
+      await this.client.eval(UNLOCK_SCRIPT, 1, fullKey, token);
     } catch (error) {
       throw new CacheBackendError(
         `Redis unlock operation failed for key "${fullKey}": ${error instanceof Error ? error.message : String(error)}`,
@@ -146,6 +343,436 @@ export class RedisCacheBackend<T = unknown> implements CacheBackend<T> {
     }
   }
 
+  /**
+   * Extend a distributed lock (compare-and-expire, via Lua).
+   * @param key - The lock key
+   * @param token - The token returned by lock
+   * @param ttl - New lock TTL in seconds
+   * @returns True if the lock was extended, false if it is no longer held
+   */
+  async extendLock(key: string, token: string, ttl: number): Promise<boolean> {
+    const fullKey = this.prefix ? `${this.prefix}:${key}` : key;
+    try {
+      const result = await this.client.eval(EXTEND_LOCK_SCRIPT, 1, fullKey, token, ttl);
+      return result === 1;
+    } catch (error) {
+      throw new CacheBackendError(
+        `Redis extendLock operation failed for key "${fullKey}": ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Record tag membership using one Redis sorted set per tag (atomic, via Lua).
+   * @param keys - The cache keys to tag
+   * @param tags - The tags to add the keys to
+   * @param ttl - Optional TTL in seconds for the tag sets
+   */
+  async tag(keys: string[], tags: string[], ttl?: number): Promise<void> {
+    if (keys.length === 0 || tags.length === 0) return;
+    const tagKeys = tags.map((tag) => this.getTagKey(tag));
+    try {
+      await this.client.eval(TAG_SCRIPT, tagKeys.length, ...tagKeys, ttl ?? 0, ...keys);
+    } catch (error) {
+      throw new CacheBackendError(
+        `Redis tag operation failed for tags "${tags.join(', ')}": ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Delete all keys belonging to the given tags. Members are popped from each tag set
+   * and deleted in batches, so a large tag never blocks Redis; the set is gone once
+   * empty. Keys tagged while this runs are deleted too.
+   * @param tags - The tags to invalidate
+   * @returns The keys that were deleted
+   */
+  async invalidateTags(tags: string[]): Promise<string[]> {
+    if (tags.length === 0) return [];
+    const deleted = new Set<string>();
+    try {
+      for (const tag of tags) {
+        const tagKey = this.getTagKey(tag);
+        for (;;) {
+          // Members and scores, interleaved
+          const popped = await this.client.zpopmin(tagKey, INVALIDATE_BATCH_SIZE);
+          if (popped.length === 0) break;
+          const pipeline = this.client.pipeline();
+          const restore: string[] = [];
+          for (let i = 0; i < popped.length; i += 2) {
+            pipeline.unlink(this.prefix ? `${this.prefix}:${popped[i]}` : popped[i]);
+            restore.push(popped[i + 1], popped[i]);
+          }
+          try {
+            const results = await pipeline.exec();
+            const failure = results?.find(([error]) => error)?.[0];
+            if (failure) throw failure;
+          } catch (error) {
+            // Put the batch back, so a later invalidation still finds its keys
+            await this.client.zadd(tagKey, ...restore).catch(() => {});
+            throw error;
+          }
+          for (let i = 0; i < popped.length; i += 2) {
+            deleted.add(popped[i]);
+          }
+        }
+      }
+      return Array.from(deleted);
+    } catch (error) {
+      throw new CacheBackendError(
+        `Redis invalidate tags operation failed for tags "${tags.join(', ')}": ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Publish a message with Redis PUBLISH.
+   * @param channel - The channel to publish to
+   * @param message - The message to publish
+   */
+  async publish(channel: string, message: string): Promise<void> {
+    const fullChannel = this.prefix ? `${this.prefix}:${channel}` : channel;
+    try {
+      await this.client.publish(fullChannel, message);
+    } catch (error) {
+      throw new CacheBackendError(
+        `Redis publish operation failed for channel "${fullChannel}": ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Subscribe to a channel with Redis SUBSCRIBE.
+   * Subscriptions share one dedicated connection, duplicated from the client on first use
+   * and disconnected once the last subscription is removed.
+   * ioredis re-subscribes after a reconnect; `onReconnect` is called once it is back.
+   * @param channel - The channel to subscribe to
+   * @param listener - Called with each message
+   * @param options - Optional callback for when the connection is re-established
+   * @returns A function that removes the subscription
+   */
+  async subscribe(
+    channel: string,
+    listener: (message: string) => void,
+    options?: CacheSubscribeOptions,
+  ): Promise<() => Promise<void>> {
+    const fullChannel = this.prefix ? `${this.prefix}:${channel}` : channel;
+    const subscriber = this.getSubscriber();
+    const onReconnect = options?.onReconnect;
+
+    let channelListeners = this.listeners.get(fullChannel);
+    if (!channelListeners) {
+      channelListeners = new Set();
+      this.listeners.set(fullChannel, channelListeners);
+    }
+    channelListeners.add(listener);
+
+    try {
+      if (channelListeners.size === 1) {
+        await subscriber.subscribe(fullChannel);
+      }
+    } catch (error) {
+      channelListeners.delete(listener);
+      if (channelListeners.size === 0) this.listeners.delete(fullChannel);
+      if (this.listeners.size === 0) this.releaseSubscriber();
+      throw new CacheBackendError(
+        `Redis subscribe operation failed for channel "${fullChannel}": ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+    if (onReconnect) this.reconnectListeners.add(onReconnect);
+
+    return async () => {
+      if (onReconnect) this.reconnectListeners.delete(onReconnect);
+      const current = this.listeners.get(fullChannel);
+      if (!current || !current.delete(listener) || current.size > 0) return;
+      this.listeners.delete(fullChannel);
+      // Don't keep a connection (and the process) alive without subscriptions
+      if (this.listeners.size === 0) {
+        this.releaseSubscriber();
+        return;
+      }
+      try {
+        await subscriber.unsubscribe(fullChannel);
+      } catch (error) {
+        throw new CacheBackendError(
+          `Redis unsubscribe operation failed for channel "${fullChannel}": ${error instanceof Error ? error.message : String(error)}`,
+          error instanceof Error ? error : undefined
+        );
+      }
+    };
+  }
+
+  /**
+   * Close the dedicated pub/sub and tracking connections, if they were opened.
+   * The main client is owned by the caller and left untouched.
+   */
+  async close(): Promise<void> {
+    this.listeners.clear();
+    this.releaseSubscriber();
+    this.trackingListeners.clear();
+    this.releaseTracker();
+  }
+
+  /**
+   * Disconnect the pub/sub connection; the next subscribe opens a new one
+   */
+  private releaseSubscriber(): void {
+    if (!this.subscriber) return;
+    const subscriber = this.subscriber;
+    this.subscriber = undefined;
+    this.reconnectListeners.clear();
+    subscriber.disconnect();
+  }
+
+  /**
+   * Register a tracking listener, enabling tracking for the first one
+   */
+  private async addTrackingListener(listener: CacheTrackingListener): Promise<() => Promise<void>> {
+    this.trackingListeners.add(listener);
+    try {
+      await this.syncTracking();
+    } catch (error) {
+      this.trackingListeners.delete(listener);
+      if (this.trackingListeners.size === 0) this.releaseTracker();
+      throw new CacheBackendError(
+        `Redis client tracking could not be enabled: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    // Prefixes of stopped listeners stay tracked until the last one stops
+    return async () => {
+      if (!this.trackingListeners.delete(listener) || this.trackingListeners.size > 0) return;
+      this.releaseTracker();
+    };
+  }
+
+  /**
+   * Full key prefixes watched for the current listeners. Redis rejects overlapping
+   * prefixes, so prefixes covered by a shorter one are dropped; '' means every key.
+   */
+  private getTrackedPrefixes(): string[] {
+    const base = this.prefix ? `${this.prefix}:` : '';
+    const prefixes = [...new Set([...this.trackingListeners].map(({ prefix }) => `${base}${prefix ?? ''}`))].sort();
+    return prefixes.filter((prefix, index) => !prefixes.slice(0, index).some((shorter) => prefix.startsWith(shorter)));
+  }
+
+  /**
+   * Enable tracking on the tracking client, redirecting invalidations to the tracker.
+   * Re-run after either connection reconnects (a reconnected client has lost its
+   * tracking state, and a reconnected tracker has a new client ID) and when a
+   * listener needs another prefix. Runs one at a time and does nothing while
+   * tracking is active on the right prefixes.
+   */
+  private syncTracking(): Promise<void> {
+    const sync = (this.trackingSync ?? Promise.resolve())
+      .catch(() => {})
+      .then(async () => {
+        const prefixes = this.getTrackedPrefixes();
+        if (this.trackingActive && this.trackedPrefixes === prefixes.join(' ')) return;
+        // Changes made while tracking is switched over go unreported
+        this.setTrackingActive(false);
+        const { tracker, trackingClient } = this.getTracker();
+        if (this.trackerId === undefined) {
+          // CLIENT ID is not allowed once the connection is in subscriber mode
+          const id = String(await tracker.call('CLIENT', 'ID'));
+          await tracker.subscribe(INVALIDATE_CHANNEL);
+          this.trackerId = id;
+        }
+        const prefixArgs = prefixes.flatMap((prefix) => (prefix ? ['PREFIX', prefix] : []));
+        // Turning tracking on again with an overlapping prefix is rejected
+        await trackingClient.call('CLIENT', 'TRACKING', 'OFF');
+        await trackingClient.call('CLIENT', 'TRACKING', 'ON', 'REDIRECT', this.trackerId, 'BCAST', ...prefixArgs);
+        this.trackedPrefixes = prefixes.join(' ');
+        this.setTrackingActive(true);
+      });
+    this.trackingSync = sync;
+    return sync;
+  }
+
+  /**
+   * Record whether invalidations are being delivered, and tell the listeners
+   */
+  private setTrackingActive(active: boolean): void {
+    if (this.trackingActive === active) return;
+    this.trackingActive = active;
+    for (const listener of this.trackingListeners) {
+      listener.onStateChange?.(active);
+    }
+  }
+
+  /**
+   * Invalidations may be missed while either connection is down
+   */
+  private onTrackingClose = (): void => {
+    this.setTrackingActive(false);
+  };
+
+  /**
+   * Re-enable tracking once a connection is back
+   */
+  private onTrackingReady = (): void => {
+    if (this.trackingListeners.size === 0) return;
+    this.syncTracking().catch(() => {});
+  };
+
+  /**
+   * Get (or lazily create) the connection receiving tracking invalidations, and the
+   * connection tracking is enabled on. Both are owned by this backend, so backends
+   * sharing a client don't override each other's tracking.
+   */
+  private getTracker(): { tracker: Redis; trackingClient: Redis } {
+    if (!this.tracker || !this.trackingClient) {
+      // Subscribed again by syncTracking after CLIENT ID, not automatically
+      const tracker = this.client.duplicate({ autoResubscribe: false });
+      // Connection errors surface through failed track calls; avoid unhandled error events
+      tracker.on('error', () => {});
+      // Events of a released tracker arrive late and must not touch its successor
+      tracker.on('close', () => {
+        if (this.tracker !== tracker) return;
+        this.trackerId = undefined;
+        this.onTrackingClose();
+      });
+      tracker.on('ready', () => {
+        if (this.tracker === tracker) this.onTrackingReady();
+      });
+      // Invalidations carry an array of keys, or null after FLUSHALL; only the buffer event keeps the array
+      tracker.on('messageBuffer', (channel: Buffer, message: Buffer[] | null) => {
+        if (channel.toString() !== INVALIDATE_CHANNEL) return;
+        const keys = Array.isArray(message)
+          ? message.map((key) => {
+            const fullKey = key.toString();
+            return this.prefix ? fullKey.slice(this.prefix.length + 1) : fullKey;
+          })
+          : null;
+        for (const listener of this.trackingListeners) {
+          const { prefix } = listener;
+          const listenerKeys = keys && prefix ? keys.filter((key) => key.startsWith(prefix)) : keys;
+          if (listenerKeys?.length !== 0) listener.onInvalidate(listenerKeys);
+        }
+      });
+
+      const trackingClient = this.client.duplicate();
+      trackingClient.on('error', () => {});
+      trackingClient.on('close', () => {
+        if (this.trackingClient === trackingClient) this.onTrackingClose();
+      });
+      trackingClient.on('ready', () => {
+        if (this.trackingClient === trackingClient) this.onTrackingReady();
+      });
+      this.tracker = tracker;
+      this.trackingClient = trackingClient;
+    }
+    return { tracker: this.tracker, trackingClient: this.trackingClient };
+  }
+
+  /**
+   * Disconnect the tracking connections, which also turns tracking off
+   */
+  private releaseTracker(): void {
+    const { tracker, trackingClient } = this;
+    this.tracker = undefined;
+    this.trackerId = undefined;
+    this.trackingClient = undefined;
+    this.trackedPrefixes = undefined;
+    this.trackingActive = false;
+    tracker?.disconnect();
+    trackingClient?.disconnect();
+  }
+
+  /**
+   * Get (or lazily create) the connection used for subscriptions
+   */
+  private getSubscriber(): Redis {
+    if (!this.subscriber) {
+      const subscriber = this.client.duplicate();
+      // Connection errors surface through failed subscribe calls; avoid unhandled error events
+      subscriber.on('error', () => {});
+      // Messages published while the connection was down are lost; tell subscribers once it's back
+      let disconnected = false;
+      subscriber.on('close', () => {
+        disconnected = true;
+      });
+      subscriber.on('ready', () => {
+        if (!disconnected) return;
+        disconnected = false;
+        for (const onReconnect of this.reconnectListeners) {
+          onReconnect();
+        }
+      });
+      subscriber.on('message', (channel: string, message: string) => {
+        if (this.subscriber !== subscriber) return;
+        for (const listener of this.listeners.get(channel) ?? []) {
+          listener(message);
+        }
+      });
+      this.subscriber = subscriber;
+    }
+    return this.subscriber;
+  }
+
+  /**
+   * Serialize a value for storage, with fast paths for simple values
+   */
+  private serialize(fullKey: string, value: T): string {
+    if (value === null) return 'null';
+    if (value === undefined) return 'undefined';
+    if (typeof value === 'boolean' || typeof value === 'number') return value.toString();
+    try {
+      return JSON.stringify(value);
+    } catch (error) {
+      throw new CacheSerializationError(
+        `Failed to stringify value for key "${fullKey}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Parse a stored value; null (a missing key) becomes undefined
+   */
+  private deserialize(fullKey: string, value: string | null): T | undefined {
+    if (value === null) return undefined;
+
+    // Fast path for simple values
+    if (value === 'null') return null as T;
+    if (value === 'undefined') return undefined;
+    if (value === 'true') return true as T;
+    if (value === 'false') return false as T;
+
+    // Try to parse as number first (common case)
+    const num = Number(value);
+    if (!isNaN(num) && value.trim() === num.toString()) {
+      return num as T;
+    }
+
+    try {
+      return JSON.parse(value) as T;
+    } catch (error) {
+      throw new CacheSerializationError(
+        `Failed to parse cached value for key "${fullKey}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Get the Redis key of the set holding a tag's members
+   */
+  private getTagKey(tag: string): string {
+    return this.prefix ? `${this.prefix}:tag:${tag}` : `tag:${tag}`;
+  }
+
+  /**
+   * Get the Redis key of the fencing counter for a lock
+   */
+  private getFenceKey(lockKey: string): string {
+    return this.prefix ? `${this.prefix}:fence:${lockKey}` : `fence:${lockKey}`;
+  }
+
   /**
    * Clear all cache entries for the current prefix/namespace.
    * Uses SCAN and DEL for safety and performance.
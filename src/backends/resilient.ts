@@ -0,0 +1,227 @@
+/**
+ * next-cachex: Resilient backend wrapper
+ * Adds per-operation timeouts and retries to any CacheBackend.
+ * @packageDocumentation
+ */
+
+import {
+  CacheBackend,
+  CacheTimeoutError,
+  CacheSerializationError,
+  CacheConfigError,
+  CacheLockError,
+} from '../types';
+
+/**
+ * Retry policy for backend operations.
+ */
+export interface RetryOptions {
+  /**
+   * Total number of attempts, including the first one. Defaults to 3.
+   */
+  attempts?: number;
+  /**
+   * Delay before the first retry in ms; doubled for every further retry. Defaults to 50.
+   */
+  backoff?: number;
+  /**
+   * Upper bound for the delay between attempts in ms. Defaults to 1000.
+   */
+  maxBackoff?: number;
+  /**
+   * Randomize delays between 0 and the computed backoff ("full jitter"), so pods
+   * don't retry in lockstep. Defaults to true.
+   */
+  jitter?: boolean;
+  /**
+   * Decide whether a failed attempt may be retried. Defaults to retrying everything
+   * except serialization, configuration and lock/fencing errors.
+   */
+  retryable?: (error: unknown) => boolean;
+}
+
+/**
+ * Options for createResilientBackend.
+ */
+export interface ResilienceOptions {
+  /**
+   * Maximum duration of a single attempt in ms. Defaults to 1000.
+   */
+  operationTimeout?: number;
+  /**
+   * Retry policy, or false to never retry. Locks and tag invalidations are never
+   * retried: a timed out attempt may still have acquired the lock, or deleted the
+   * tagged keys, whose names a retry could no longer report.
+   */
+  retry?: RetryOptions | false;
+}
+
+/**
+ * Default resilience settings
+ */
+const DEFAULT_OPERATION_TIMEOUT = 1000;
+const DEFAULT_RETRY_OPTIONS = {
+  attempts: 3,
+  backoff: 50,
+  maxBackoff: 1000,
+  jitter: true,
+};
+
+/**
+ * Errors caused by the data or the caller rather than the backend; retrying can't help
+ */
+const isRetryable = (error: unknown): boolean =>
+  !(
+    error instanceof CacheSerializationError ||
+    error instanceof CacheConfigError ||
+    error instanceof CacheLockError
+  );
+
+/**
+ * Wait for the given number of ms
+ */
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Wrap a backend so every call has a deadline and failed calls are retried with
+ * exponential backoff. Optional methods are only present when the wrapped backend
+ * implements them.
+ *
+ * @param backend - The backend to wrap (built-in or custom)
+ * @param options - Timeout and retry policy
+ * @returns A backend with the same capabilities as the wrapped one
+ *
+ * @example
+ * ```ts
+ * const backend = createResilientBackend(new RedisCacheBackend(redis, 'myapp'), {
+ *   operationTimeout: 500,
+ *   retry: { attempts: 3, backoff: 50, jitter: true },
+ * });
+ * ```
+ */
+export function createResilientBackend<T = unknown>(
+  backend: CacheBackend<T>,
+  options: ResilienceOptions = {},
+): CacheBackend<T> {
+  const operationTimeout = options.operationTimeout ?? DEFAULT_OPERATION_TIMEOUT;
+  const retry = options.retry === false
+    ? { ...DEFAULT_RETRY_OPTIONS, attempts: 1 }
+    : { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+  const retryable = retry.retryable ?? isRetryable;
+
+  /**
+   * Run one attempt with a deadline. A late result is handed to onLateResult,
+   * so resources acquired after the deadline (locks, subscriptions) can be released.
+   */
+  const withTimeout = <V>(
+    operation: string,
+    key: string,
+    run: () => Promise<V>,
+    onLateResult?: (result: V) => void,
+  ): Promise<V> => {
+    const attempt = run();
+    return new Promise<V>((resolve, reject) => {
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        reject(new CacheTimeoutError(
+          `Cache ${operation} timed out for key "${key}" (${operationTimeout}ms)`,
+          { operation, key },
+        ));
+      }, operationTimeout);
+
+      attempt.then(
+        (result) => {
+          clearTimeout(timer);
+          if (timedOut) {
+            onLateResult?.(result);
+          } else {
+            resolve(result);
+          }
+        },
+        (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      );
+    });
+  };
+
+  /**
+   * Run an operation with a deadline per attempt, retrying retryable failures
+   */
+  const call = async <V>(
+    operation: string,
+    key: string,
+    run: () => Promise<V>,
+    onLateResult?: (result: V) => void,
+    attempts = retry.attempts,
+  ): Promise<V> => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await withTimeout(operation, key, run, onLateResult);
+      } catch (error) {
+        if (attempt >= attempts || !retryable(error)) throw error;
+        const delay = Math.min(retry.backoff * 2 ** (attempt - 1), retry.maxBackoff);
+        await sleep(retry.jitter ? Math.random() * delay : delay);
+      }
+    }
+  };
+
+  const resilient: CacheBackend<T> = {
+    get: (key) => call('get', key, () => backend.get(key)),
+    set: (key, value, setOptions) => call('set', key, () => backend.set(key, value, setOptions)),
+    del: (key) => call('del', key, () => backend.del(key)),
+    lock: (key, ttl) =>
+      call('lock', key, () => backend.lock(key, ttl), (lock) => {
+        // The caller gave up on this lock; release it instead of letting it block others until its TTL
+        if (lock) backend.unlock(key, lock.token).catch(() => {});
+      }, 1),
+    unlock: (key, token) => call('unlock', key, () => backend.unlock(key, token)),
+  };
+
+  const { mget, mset, touch, extendLock, clear, tag, invalidateTags, publish, subscribe, track } = backend;
+  if (mget) {
+    resilient.mget = (keys) => call('mget', keys.join(','), () => mget.call(backend, keys));
+  }
+  if (mset) {
+    resilient.mset = (entries) =>
+      call('mset', entries.map(({ key }) => key).join(','), () => mset.call(backend, entries));
+  }
+  if (touch) {
+    resilient.touch = (key, ttl) => call('touch', key, () => touch.call(backend, key, ttl));
+  }
+  if (extendLock) {
+    resilient.extendLock = (key, token, ttl) =>
+      call('extendLock', key, () => extendLock.call(backend, key, token, ttl));
+  }
+  if (clear) {
+    resilient.clear = () => call('clear', '*', () => clear.call(backend));
+  }
+  if (tag) {
+    resilient.tag = (keys, tags, ttl) =>
+      call('tag', keys.join(','), () => tag.call(backend, keys, tags, ttl));
+  }
+  if (invalidateTags) {
+    resilient.invalidateTags = (tags) =>
+      call('invalidateTags', tags.join(','), () => invalidateTags.call(backend, tags), undefined, 1);
+  }
+  if (publish) {
+    resilient.publish = (channel, message) =>
+      call('publish', channel, () => publish.call(backend, channel, message));
+  }
+  if (subscribe) {
+    resilient.subscribe = (channel, listener, subscribeOptions) =>
+      call('subscribe', channel, () => subscribe.call(backend, channel, listener, subscribeOptions), (unsubscribe) => {
+        unsubscribe().catch(() => {});
+      });
+  }
+  if (track) {
+    resilient.track = (listener) =>
+      call('track', '*', () => track.call(backend, listener), (stop) => {
+        stop().catch(() => {});
+      });
+  }
+
+  return resilient;
+}
@@ -0,0 +1,110 @@
+/**
+ * next-cachex: Circuit breaker
+ * Stops calling a failing backend for a while, then probes it before
+ * resuming normal traffic.
+ * @packageDocumentation
+ */
+
+import type { CircuitBreakerOptions, CircuitState } from '../types';
+
+/**
+ * Default circuit breaker settings
+ */
+const DEFAULT_CIRCUIT_BREAKER_OPTIONS = {
+  failureThreshold: 5,
+  resetTimeout: 30000, // 30 seconds
+  halfOpenMaxProbes: 1,
+};
+
+/**
+ * Tracks backend failures and decides whether requests may reach the backend
+ */
+export interface CircuitBreaker {
+  /**
+   * Current state of the circuit
+   */
+  readonly state: CircuitState;
+  /**
+   * Whether a request may be sent to the backend. Moves an open circuit to
+   * half-open once resetTimeout has passed, and counts half-open probes.
+   * @param key - The key of the request, reported with state transitions
+   */
+  allowRequest(key: string): boolean;
+  /**
+   * Record a successful backend call; closes a half-open circuit
+   */
+  recordSuccess(key: string): void;
+  /**
+   * Record a failed backend call; opens the circuit after failureThreshold
+   * consecutive failures, or immediately when half-open
+   */
+  recordFailure(key: string): void;
+}
+
+/**
+ * Create a circuit breaker.
+ *
+ * @param options - Thresholds and timings
+ * @param onStateChange - Called on every state transition, with the key of the triggering request
+ * @returns The circuit breaker, initially closed
+ */
+export function createCircuitBreaker(
+  options: CircuitBreakerOptions,
+  onStateChange: (state: CircuitState, key: string) => void,
+): CircuitBreaker {
+  const { failureThreshold, resetTimeout, halfOpenMaxProbes } = {
+    ...DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+    ...options,
+  };
+  let state: CircuitState = 'closed';
+  let failures = 0;
+  let openedAt = 0;
+  let probes = 0;
+
+  const transition = (next: CircuitState, key: string) => {
+    if (next === state) return;
+    state = next;
+    failures = 0;
+    probes = 0;
+    if (next === 'open') {
+      openedAt = Date.now();
+    }
+    onStateChange(next, key);
+  };
+
+  return {
+    get state() {
+      return state;
+    },
+
+    allowRequest(key) {
+      if (state === 'open') {
+        if (Date.now() - openedAt < resetTimeout) return false;
+        transition('half-open', key);
+      }
+      if (state === 'half-open') {
+        if (probes >= halfOpenMaxProbes) return false;
+        probes++;
+      }
+      return true;
+    },
+
+    recordSuccess(key) {
+      if (state === 'half-open') {
+        transition('closed', key);
+      }
+      failures = 0;
+    },
+
+    recordFailure(key) {
+      if (state === 'half-open') {
+        transition('open', key);
+        return;
+      }
+      failures++;
+      if (state === 'closed' && failures >= failureThreshold) {
+        transition('open', key);
+      }
+    },
+  };
+}
@@ -2,10 +2,33 @@ import {
   CacheHandler,
   CacheHandlerOptions,
   CacheFetchOptions,
+  CacheFetcher,
+  CacheBatchFetcher,
+  CacheError,
+  CacheFetchTimeoutError,
   CacheLogger,
   CacheTimeoutError,
   CacheBackendError,
+  CacheConfigError,
+  CacheLockError,
+  CacheFencingError,
+  CacheCircuitOpenError,
+  CacheSerializationError,
+  CacheLock,
+  CacheSetOptions,
+  CacheEntryInfo,
+  CacheWriteOptions,
+  CacheSchema,
+  CacheValidationError,
+  CacheWrapOptions,
+  CachedFunction,
 } from '../types';
+import { wrapValue, unwrapValue, getMetadata, estimateSize, CacheEnvelope } from './envelope';
+import { createL1Cache } from './l1Cache';
+import { validateValue } from './schema';
+import { hashArgs } from './hashArgs';
+import { createInvalidationBus } from './invalidationBus';
+import { createCircuitBreaker } from './circuitBreaker';
 
 /**
  * Default cache logger that does nothing
@@ -25,6 +48,190 @@ const DEFAULT_FETCH_OPTIONS = {
   staleTtl: 3600, // 1 hour
 };
 
+/**
+ * Messages published on a lock's channel when the holder finishes: the value is
+ * cached, the fetcher failed, the value was fetched but cacheIf rejected it, or
+ * the holder's callers gave up before a value was produced
+ */
+const LOCK_RELEASED = 'released';
+const LOCK_FAILED = 'failed';
+const LOCK_UNCACHED = 'uncached';
+const LOCK_ABANDONED = 'abandoned';
+
+/**
+ * Default XFetch beta; higher values recompute earlier
+ */
+const DEFAULT_EARLY_RECOMPUTE_BETA = 1;
+
+/**
+ * Sliding expiration: a key is touched again only after this fraction of its TTL,
+ * and at most this many keys are remembered before expired windows are pruned
+ */
+const SLIDING_TOUCH_INTERVAL = 0.1;
+const MAX_SLIDING_KEYS = 10000;
+
+/**
+ * Decide whether to recompute a value before it expires (XFetch).
+ * The probability rises as expiry approaches and with the fetcher's duration.
+ * Values without an expiry are never recomputed early.
+ * @see https://cseweb.ucsd.edu/~avattani/papers/cache_stampede.pdf
+ */
+const shouldRecomputeEarly = (envelope: CacheEnvelope, beta: number): boolean =>
+  envelope.expiresAt !== undefined &&
+  Date.now() - envelope.fetchDurationMs * beta * Math.log(Math.random()) >= envelope.expiresAt;
+
+/**
+ * Run a fetcher with a signal that aborts on fetchTimeout or when the caller's signal
+ * aborts. Settles as soon as the signal aborts, even if the fetcher ignores it.
+ */
+const runFetcher = async <R>(
+  fullKey: string,
+  fetcher: CacheFetcher<R>,
+  fetchTimeout: number | undefined,
+  callerSignal: AbortSignal | undefined,
+): Promise<R> => {
+  const controller = new AbortController();
+  const { signal } = controller;
+  const onCallerAbort = () => controller.abort(callerSignal?.reason);
+  if (callerSignal?.aborted) {
+    onCallerAbort();
+  } else {
+    callerSignal?.addEventListener('abort', onCallerAbort, { once: true });
+  }
+  const timer = fetchTimeout === undefined ? undefined : setTimeout(() => {
+    controller.abort(new CacheFetchTimeoutError(`Fetcher for ${fullKey} timed out (${fetchTimeout}ms)`));
+  }, fetchTimeout);
+
+  try {
+    return await new Promise<R>((resolve, reject) => {
+      if (signal.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+      fetcher(signal).then(resolve, reject);
+    });
+  } finally {
+    clearTimeout(timer);
+    callerSignal?.removeEventListener('abort', onCallerAbort);
+  }
+};
+
+/**
+ * A load shared by concurrent callers of the same key
+ */
+interface Flight {
+  promise: Promise<unknown>;
+  callers: number;
+  // Callers that haven't aborted; callers without a signal never do
+  waiting: number;
+  controller: AbortController;
+}
+
+/**
+ * Follow a shared load until it settles, or until the caller's own signal aborts.
+ * The load itself is aborted only when the last waiting caller gives up.
+ */
+const followFlight = <R>(flight: Flight, signal: AbortSignal | undefined): Promise<R> => {
+  const promise = flight.promise as Promise<R>;
+  if (!signal) return promise;
+  return new Promise<R>((resolve, reject) => {
+    const onAbort = () => {
+      reject(signal.reason);
+      flight.waiting--;
+      if (flight.waiting === 0) flight.controller.abort(signal.reason);
+    };
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+/**
+ * Check that a batch fetcher returned one value per key
+ */
+const checkBatchValues = <R>(values: R[], count: number): R[] => {
+  if (!Array.isArray(values) || values.length !== count) {
+    throw new CacheError(
+      `Batch fetcher returned ${Array.isArray(values) ? values.length : 'no'} values for ${count} keys`
+    );
+  }
+  return values;
+};
+
+/**
+ * Fencing options for writes made under a lock; backends without fencing tokens get none
+ */
+const getFencing = (lockKey: string, lock: CacheLock): CacheSetOptions['fencing'] =>
+  lock.fence === undefined ? undefined : { lockKey, fence: lock.fence };
+
+/**
+ * Fetch options merged with defaults
+ */
+type ResolvedFetchOptions = CacheFetchOptions & Required<Pick<CacheFetchOptions, 'ttl' | 'lockTimeout' | 'staleTtl'>>;
+
+/**
+ * Fetch options with the TTLs for one value worked out (see getStoreOptions)
+ */
+type StoreOptions = ResolvedFetchOptions & { ttl: number };
+
+/**
+ * Lock lease in ms
+ */
+const getLockTtl = (fetchOptions: ResolvedFetchOptions): number =>
+  fetchOptions.lockTtl ?? fetchOptions.lockTimeout;
+
+/**
+ * How long waiters wait for the lock holder in ms
+ */
+const getWaitTimeout = (fetchOptions: ResolvedFetchOptions): number =>
+  fetchOptions.waitTimeout ?? fetchOptions.lockTimeout;
+
+/**
+ * Keep a TTL worked out for a value only while it is positive; 0 would store the
+ * value without expiry, and backends reject negative TTLs
+ */
+const positiveTtl = (ttl: number): number | undefined => (ttl > 0 ? ttl : undefined);
+
+/**
+ * TTL in seconds for a fetched value: ttlFor, then negativeTtl for null and undefined,
+ * then expiresAt, then ttl. Undefined when the value must not be cached: expiresAt has
+ * already passed, or a TTL other than a fixed `ttl` is 0 or less.
+ */
+const resolveTtl = (value: unknown, fetchOptions: ResolvedFetchOptions): number | undefined => {
+  const { ttlFor, negativeTtl, expiresAt, ttl } = fetchOptions;
+  const override = ttlFor?.(value) ?? (value === null || value === undefined ? negativeTtl : undefined);
+  if (override !== undefined) return positiveTtl(override);
+  if (expiresAt !== undefined) {
+    const date = typeof expiresAt === 'function' ? expiresAt(value) : expiresAt;
+    // Whole seconds, rounded down so the value never outlives its expiry
+    return positiveTtl(Math.floor((date.getTime() - Date.now()) / 1000));
+  }
+  return typeof ttl === 'function' ? positiveTtl(ttl(value)) : ttl;
+};
+
+/**
+ * Options to store a fetched value with, its TTLs worked out: undefined when
+ * cacheIf rejects the value or its expiresAt has passed
+ */
+const getStoreOptions = (value: unknown, fetchOptions: ResolvedFetchOptions): StoreOptions | undefined => {
+  const { cacheIf, ttlJitter, staleTtl } = fetchOptions;
+  if (cacheIf && !cacheIf(value)) return undefined;
+  const ttl = resolveTtl(value, fetchOptions);
+  if (ttl === undefined) return undefined;
+  if (!ttlJitter || ttl <= 0) return { ...fetchOptions, ttl };
+
+  // Expire up to ttlJitter earlier, never later; the stale copy moves by the same
+  // amount, so it still outlives the value by staleTtl - ttl
+  const jittered = Math.max(1, Math.floor(ttl * (1 - ttlJitter * Math.random())));
+  return { ...fetchOptions, ttl: jittered, staleTtl: staleTtl - (ttl - jittered) };
+};
+
 /**
  * Create a new cache handler with the specified backend and options.
  * 
@@ -56,12 +263,77 @@ export function createCacheHandler<T = unknown>(
     prefix = '',
     logger = noopLogger,
     fallbackToStale = false,
+    staleWhileRevalidate = false,
+    earlyRecompute = false,
     version = '',
+    l1,
+    failOpen = false,
+    circuitBreaker: circuitBreakerOptions = failOpen,
+    schema: defaultSchema,
   } = options;
 
-  // Simple in-memory cache for frequently accessed keys (L1 cache)
-  const l1Cache = new Map<string, { value: unknown; expiresAt: number }>();
-  const L1_CACHE_TTL = 1000; // 1 second TTL for L1 cache
+  // In-memory LRU cache for frequently accessed keys (L1 cache)
+  const l1Cache = createL1Cache(l1);
+
+  // Keeps the L1 caches of all handlers sharing the prefix in sync
+  const { publish, subscribe } = backend;
+  const invalidationChannel = [prefix, 'l1:invalidate'].filter(Boolean).join(':');
+  const invalidationBus = l1Cache.enabled && l1?.invalidation !== false && publish && subscribe
+    ? createInvalidationBus(
+      { publish: publish.bind(backend), subscribe: subscribe.bind(backend) },
+      invalidationChannel,
+      {
+        evict: (keys) => l1Cache.invalidate(keys),
+        flush: () => l1Cache.invalidate(null),
+        onError: (error) => logger.log({ type: 'ERROR', key: invalidationChannel, error }),
+      },
+    )
+    : undefined;
+
+  // Keeps L1 entries until the backend reports a change, when it can track keys
+  const { track } = backend;
+  const trackingKey = [prefix, 'l1:tracking'].filter(Boolean).join(':');
+  // Only value keys; lock, fence, tag and stale keys change on every write
+  const valuePrefix = [prefix, version].filter(Boolean).join(':');
+  const tracking = l1Cache.enabled && track
+    ? track.call(backend, {
+      prefix: valuePrefix ? `${valuePrefix}:` : undefined,
+      onInvalidate: (keys) => l1Cache.invalidate(keys),
+      onStateChange: (active) => l1Cache.setTracking(active),
+    }).then(
+      (stop) => {
+        l1Cache.setTracking(true);
+        return stop;
+      },
+      (error) => {
+        // Unsupported or unreachable: keep using the short L1 TTL
+        logger.log({
+          type: 'ERROR',
+          key: trackingKey,
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+        return undefined;
+      },
+    )
+    : undefined;
+
+  // Stops contacting a failing backend for a while
+  const circuitBreaker = circuitBreakerOptions
+    ? createCircuitBreaker(
+      circuitBreakerOptions === true ? {} : circuitBreakerOptions,
+      (state, key) => logger.log({ type: 'CIRCUIT', key, state }),
+    )
+    : undefined;
+
+  // Keys with a background revalidation in flight in this process
+  const revalidating = new Set<string>();
+
+  // Loads in flight in this process, shared by concurrent callers of the same key.
+  // A load runs under its own signal, aborted once every caller has given up.
+  const inflight = new Map<string, Flight>();
+
+  // Sliding keys touched by this process, with the time their next touch is due
+  const touchedUntil = new Map<string, number>();
 
   /**
    * Get the fully qualified key with prefix and version
@@ -72,192 +344,1330 @@ export function createCacheHandler<T = unknown>(
   };
 
   /**
-   * Fetch a value from cache or execute the fetcher function
+   * Call the backend through the circuit breaker. Fencing and serialization
+   * errors are about the data, not the backend, so they don't count as failures.
+   * @throws CacheCircuitOpenError without calling the backend while the circuit is open
    */
-  const fetch = async <R = T>(
+  const callBackend = async <V>(key: string, operation: () => Promise<V>): Promise<V> => {
+    if (!circuitBreaker) return operation();
+    if (!circuitBreaker.allowRequest(key)) {
+      throw new CacheCircuitOpenError('Cache backend circuit is open');
+    }
+    try {
+      const result = await operation();
+      circuitBreaker.recordSuccess(key);
+      return result;
+    } catch (error) {
+      if (error instanceof CacheFencingError || error instanceof CacheSerializationError) {
+        circuitBreaker.recordSuccess(key);
+      } else {
+        circuitBreaker.recordFailure(key);
+      }
+      throw error;
+    }
+  };
+
+  /**
+   * Whether stale-while-revalidate applies to a fetch
+   */
+  const isStaleWhileRevalidate = (fetchOptions: ResolvedFetchOptions): boolean =>
+    fetchOptions.staleWhileRevalidate ?? staleWhileRevalidate;
+
+  /**
+   * Resolve the XFetch beta for a fetch, or undefined when early recomputation is off
+   */
+  const getEarlyRecomputeBeta = (fetchOptions: ResolvedFetchOptions): number | undefined => {
+    const setting = fetchOptions.earlyRecompute ?? earlyRecompute;
+    if (!setting) return undefined;
+    return setting === true ? DEFAULT_EARLY_RECOMPUTE_BETA : setting.beta ?? DEFAULT_EARLY_RECOMPUTE_BETA;
+  };
+
+  /**
+   * Whether a stale copy should be kept alongside the value
+   */
+  const shouldStoreStale = (fetchOptions: ResolvedFetchOptions): boolean =>
+    Boolean(
+      (fallbackToStale || isStaleWhileRevalidate(fetchOptions)) &&
+      fetchOptions.staleTtl &&
+      // A TTL computed from the value is only known once there is one, so a stale copy may exist
+      (typeof fetchOptions.ttl !== 'number' || fetchOptions.staleTtl > fetchOptions.ttl)
+    );
+
+  /**
+   * Schema that values read for a fetch must pass, if any
+   */
+  const getSchema = (fetchOptions: ResolvedFetchOptions): CacheSchema | undefined =>
+    fetchOptions.schema ?? defaultSchema;
+
+  /**
+   * Validate an entry read from the backend. An entry that fails is deleted,
+   * logged as INVALID, and read as a miss.
+   */
+  const checkEntry = async <R>(
     key: string,
-    fetcher: () => Promise<R>,
-    options?: CacheFetchOptions,
-  ): Promise<R> => {
-    const fullKey = getFullKey(key);
-    const fetchOptions = { ...DEFAULT_FETCH_OPTIONS, ...options };
-    
-    // Try to get from L1 cache first
-    const l1Item = l1Cache.get(fullKey);
-    if (l1Item && l1Item.expiresAt > Date.now()) {
-      logger.log({ type: 'HIT', key: fullKey });
-      return l1Item.value as R;
+    entry: { value: R; envelope?: CacheEnvelope<R> },
+    schema: CacheSchema | undefined,
+  ): Promise<{ value: R; envelope?: CacheEnvelope<R> } | undefined> => {
+    if (!schema) return entry;
+    const result = validateValue(schema, entry.value);
+    if (result.success) {
+      return { ...entry, value: result.data as R };
     }
 
-    // Try to get from backend cache
+    logger.log({
+      type: 'INVALID',
+      key,
+      error: new CacheValidationError(`Cached value for ${key} failed validation`, result.error),
+    });
     try {
-      const cached = await backend.get(fullKey) as R | undefined;
-      if (cached !== undefined) {
-        // Store in L1 cache for future fast access
-        l1Cache.set(fullKey, {
-          value: cached,
-          expiresAt: Date.now() + L1_CACHE_TTL,
-        });
-        logger.log({ type: 'HIT', key: fullKey });
-        return cached;
-      }
+      await backend.del(key);
     } catch (error) {
-      throw new CacheBackendError(
-        `Failed to get value from cache: ${error instanceof Error ? error.message : String(error)}`,
-        error instanceof Error ? error : undefined
+      // Just log delete errors, the next write replaces the entry anyway
+      logger.log({
+        type: 'ERROR',
+        key,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+    }
+    return undefined;
+  };
+
+  /**
+   * Read an entry from the backend. Enveloped values are hits even when the value
+   * itself is undefined; for raw values, undefined means a miss.
+   */
+  const readEntry = async <R>(
+    key: string,
+    schema: CacheSchema | undefined,
+  ): Promise<{ value: R; envelope?: CacheEnvelope<R> } | undefined> => {
+    const stored = await backend.get(key);
+    return stored === undefined ? undefined : checkEntry(key, unwrapValue<R>(stored), schema);
+  };
+
+  /**
+   * Read several entries in one round trip with the backend's mget, or with
+   * parallel reads when it has none
+   */
+  const readEntries = async <R>(
+    keys: string[],
+    schema: CacheSchema | undefined,
+  ): Promise<Array<{ value: R } | undefined>> => {
+    const stored = backend.mget
+      ? await backend.mget(keys)
+      : await Promise.all(keys.map((key) => backend.get(key)));
+    return Promise.all(stored.map((value, index) =>
+      value === undefined ? undefined : checkEntry(keys[index], unwrapValue<R>(value), schema)));
+  };
+
+  /**
+   * Wrap a value in an envelope with its metadata
+   */
+  const createEntry = (
+    value: unknown,
+    fetchOptions: StoreOptions,
+    fetchDurationMs: number,
+  ): CacheEnvelope => {
+    const tags = fetchOptions.tags ?? [];
+    const createdAt = Date.now();
+    const size = estimateSize(value);
+    return wrapValue(value, {
+      createdAt,
+      // A fixed ttl of 0 stores the value without expiry
+      expiresAt: fetchOptions.ttl > 0 ? createdAt + fetchOptions.ttl * 1000 : undefined,
+      staleUntil: shouldStoreStale(fetchOptions) ? createdAt + fetchOptions.staleTtl * 1000 : undefined,
+      version: version || undefined,
+      tags: tags.length > 0 ? tags : undefined,
+      fetchDurationMs,
+      size: Number.isFinite(size) ? size : undefined,
+    });
+  };
+
+  /**
+   * Record tag membership for the given keys and their stale copies
+   */
+  const tagEntries = async (fullKeys: string[], fetchOptions: StoreOptions): Promise<void> => {
+    const tags = fetchOptions.tags ?? [];
+    if (tags.length === 0 || !backend.tag) return;
+    const storeStale = shouldStoreStale(fetchOptions);
+    try {
+      await backend.tag(
+        storeStale ? fullKeys.flatMap((fullKey) => [fullKey, `stale:${fullKey}`]) : fullKeys,
+        tags.map(getFullKey),
+        storeStale ? fetchOptions.staleTtl : fetchOptions.ttl,
       );
+    } catch (error) {
+      // Just log tagging errors, the values themselves are cached
+      logger.log({
+        type: 'ERROR',
+        key: fullKeys.join(', '),
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
     }
-    
-    logger.log({ type: 'MISS', key: fullKey });
-    
-    // Try to acquire a lock
-    const lockKey = `lock:${fullKey}`;
-    let lockAcquired = false;
+  };
+
+  /**
+   * Reset the TTL of a sliding value that was just read, along with its stale copy
+   * and tag sets. Touches are throttled per key and run in the background; failures
+   * are only logged, since the value itself was served.
+   */
+  const slide = (fullKey: string, value: unknown, fetchOptions: ResolvedFetchOptions): void => {
+    const { touch } = backend;
+    if (!fetchOptions.sliding || !touch) return;
+    const storeOptions = getStoreOptions(value, fetchOptions);
+    if (!storeOptions || storeOptions.ttl <= 0) return;
+
+    const now = Date.now();
+    if ((touchedUntil.get(fullKey) ?? 0) > now) return;
+    if (touchedUntil.size >= MAX_SLIDING_KEYS) {
+      for (const [touchedKey, until] of touchedUntil) {
+        if (until <= now) touchedUntil.delete(touchedKey);
+      }
+    }
+    touchedUntil.set(fullKey, now + storeOptions.ttl * SLIDING_TOUCH_INTERVAL * 1000);
+
+    const extend = async () => {
+      const touched = await callBackend(fullKey, () => touch.call(backend, fullKey, storeOptions.ttl));
+      if (!touched) return;
+      if (shouldStoreStale(storeOptions)) {
+        await touch.call(backend, `stale:${fullKey}`, storeOptions.staleTtl);
+      }
+      await tagEntries([fullKey], storeOptions);
+    };
+    extend().catch((error) => {
+      logger.log({
+        type: 'ERROR',
+        key: fullKey,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+    });
+  };
+
+  /**
+   * Write a freshly fetched value to the backend, L1 cache, stale copy and tag sets.
+   * Writes are fenced by the lock they were produced under, so a holder whose lock
+   * expired (and was taken over) cannot overwrite a newer value.
+   * @returns false when cacheIf rejected the value or its expiry has passed, so nothing was written
+   */
+  const storeValue = async (
+    fullKey: string,
+    value: unknown,
+    fetchOptions: ResolvedFetchOptions,
+    fetchDurationMs: number,
+    fencing?: CacheSetOptions['fencing'],
+  ): Promise<boolean> => {
+    const storeOptions = getStoreOptions(value, fetchOptions);
+    if (!storeOptions) {
+      logger.log({ type: 'SKIP', key: fullKey });
+      return false;
+    }
+    const storeStale = shouldStoreStale(storeOptions);
+    const stored = createEntry(value, storeOptions, fetchDurationMs);
+    const generation = l1Cache.generation;
+
     try {
-      lockAcquired = await backend.lock(lockKey, Math.ceil(fetchOptions.lockTimeout / 1000));
+      await callBackend(fullKey, () => backend.set(fullKey, stored as T, { 
+        ttl: storeOptions.ttl,
+        fencing,
+      }));
     } catch (error) {
-      throw new CacheBackendError(
-        `Failed to acquire lock: ${error instanceof Error ? error.message : String(error)}`,
-        error instanceof Error ? error : undefined
-      );
+      if (!(error instanceof CacheFencingError)) throw error;
+      // A newer holder owns the key now; keep its value and skip the rest of the write
+      logger.log({ type: 'ERROR', key: fullKey, error });
+      return true;
     }
     
-    if (lockAcquired) {
+    // Also store in L1 cache, and evict the old value from other pods' L1
+    if (!storeOptions.skipL1) {
+      l1Cache.set(fullKey, value, generation);
+    }
+    await invalidationBus?.publish([fullKey]);
+    
+    // If staleTtl is set, store a stale copy with longer TTL
+    if (storeStale) {
+      const staleKey = `stale:${fullKey}`;
       try {
-        logger.log({ type: 'LOCK', key: lockKey });
-        
-        // Execute the fetcher
-        const value = await fetcher();
-        
-        // Cache the result
-        await backend.set(fullKey, value as unknown as T, { 
-          ttl: fetchOptions.ttl,
-        });
-        
-        // Also store in L1 cache
-        l1Cache.set(fullKey, {
-          value,
-          expiresAt: Date.now() + L1_CACHE_TTL,
+        await backend.set(staleKey, stored as T, {
+          ttl: storeOptions.staleTtl,
+          fencing,
         });
-        
-        // If staleTtl is set, store a stale copy with longer TTL
-        if (fallbackToStale && fetchOptions.staleTtl && fetchOptions.staleTtl > fetchOptions.ttl) {
-          const staleKey = `stale:${fullKey}`;
-          try {
-            await backend.set(staleKey, value as unknown as T, {
-              ttl: fetchOptions.staleTtl,
-            });
-          } catch (error) {
-            // Just log stale cache errors, don't throw
-            logger.log({
-              type: 'ERROR',
-              key: staleKey,
-              error: error instanceof Error ? error : new Error(String(error)),
-            });
-          }
-        }
-        
-        return value;
       } catch (error) {
-        logger.log({ 
-          type: 'ERROR', 
-          key: fullKey, 
+        // Just log stale cache errors, don't throw
+        logger.log({
+          type: 'ERROR',
+          key: staleKey,
           error: error instanceof Error ? error : new Error(String(error)),
         });
-        
-        // If fallback to stale is enabled, try to get stale value
-        if (fallbackToStale && fetchOptions.staleTtl) {
-          const staleKey = `stale:${fullKey}`;
-          try {
-            const staleValue = await backend.get(staleKey) as R | undefined;
-            if (staleValue !== undefined) {
-              logger.log({ type: 'HIT', key: `stale:${fullKey}` });
-              return staleValue;
-            }
-          } catch (staleError) {
-            // Just log stale cache errors, continue with original error
+      }
+    }
+
+    await tagEntries([fullKey], storeOptions);
+    return true;
+  };
+
+  /**
+   * Write several freshly fetched values in one round trip with the backend's mset,
+   * or with storeValue per key when it has none. Batch writes are not fenced.
+   * @returns Per entry, false when the value was not written (see storeValue)
+   */
+  const storeValues = async (
+    entries: Array<{ fullKey: string; value: unknown }>,
+    fetchOptions: ResolvedFetchOptions,
+    fetchDurationMs: number,
+  ): Promise<boolean[]> => {
+    const { mset } = backend;
+    if (!mset) {
+      return Promise.all(entries.map(({ fullKey, value }) =>
+        storeValue(fullKey, value, fetchOptions, fetchDurationMs)));
+    }
+
+    const storable = entries.flatMap(({ fullKey, value }) => {
+      const storeOptions = getStoreOptions(value, fetchOptions);
+      if (storeOptions) return [{ fullKey, value, storeOptions }];
+      logger.log({ type: 'SKIP', key: fullKey });
+      return [];
+    });
+    if (storable.length === 0) return entries.map(() => false);
+
+    const writes = storable.flatMap(({ fullKey, value, storeOptions }) => {
+      const stored = createEntry(value, storeOptions, fetchDurationMs) as T;
+      const write = { key: fullKey, value: stored, ttl: storeOptions.ttl };
+      return shouldStoreStale(storeOptions)
+        ? [write, { key: `stale:${fullKey}`, value: stored, ttl: storeOptions.staleTtl }]
+        : [write];
+    });
+    const fullKeys = storable.map(({ fullKey }) => fullKey);
+    const generation = l1Cache.generation;
+    await callBackend(fullKeys.join(', '), () => mset.call(backend, writes));
+
+    if (!fetchOptions.skipL1) {
+      for (const { fullKey, value } of storable) {
+        l1Cache.set(fullKey, value, generation);
+      }
+    }
+    await invalidationBus?.publish(fullKeys);
+
+    // Tag sets must live as long as their entries, so keys are tagged per TTL
+    const byTtl = new Map<number, { storeOptions: StoreOptions; fullKeys: string[] }>();
+    for (const { fullKey, storeOptions } of storable) {
+      const group = byTtl.get(storeOptions.ttl) ?? { storeOptions, fullKeys: [] };
+      group.fullKeys.push(fullKey);
+      byTtl.set(storeOptions.ttl, group);
+    }
+    await Promise.all(Array.from(byTtl.values(), (group) => tagEntries(group.fullKeys, group.storeOptions)));
+
+    const stored = new Set(fullKeys);
+    return entries.map(({ fullKey }) => stored.has(fullKey));
+  };
+
+  /**
+   * Release a lock we hold, logging (not throwing) failures
+   */
+  const releaseLock = async (lockKey: string, lock: CacheLock): Promise<void> => {
+    try {
+      await backend.unlock(lockKey, lock.token);
+    } catch (unlockError) {
+      // Just log unlock errors, don't throw
+      logger.log({ 
+        type: 'ERROR', 
+        key: lockKey, 
+        error: new CacheBackendError(
+          `Failed to release lock: ${unlockError instanceof Error ? unlockError.message : String(unlockError)}`,
+          unlockError instanceof Error ? unlockError : undefined
+        ),
+      });
+    }
+  };
+
+  /**
+   * Announce the outcome of a lock to waiting callers on other pods, if the backend supports pub/sub
+   */
+  const notifyWaiters = async (lockKey: string, message: string): Promise<void> => {
+    if (!backend.publish) return;
+    try {
+      await backend.publish(lockKey, message);
+    } catch (error) {
+      // Waiters fall back to polling
+      logger.log({
+        type: 'ERROR',
+        key: lockKey,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+    }
+  };
+
+  /**
+   * Acquire the lock for a key, with a lease of lockTtl
+   */
+  const acquireLock = (lockKey: string, fetchOptions: ResolvedFetchOptions): Promise<CacheLock | null> =>
+    callBackend(lockKey, () => backend.lock(lockKey, Math.ceil(getLockTtl(fetchOptions) / 1000)));
+
+  /**
+   * Renew a held lock every lockTtl / 3 while the fetcher runs, if the backend supports it
+   * @returns A function that stops the renewal
+   */
+  const startLockRenewal = (
+    lockKey: string,
+    lock: CacheLock,
+    fetchOptions: ResolvedFetchOptions,
+  ): (() => void) => {
+    const { extendLock } = backend;
+    if (!extendLock) return () => {};
+
+    const lockTtl = getLockTtl(fetchOptions);
+    const timer = setInterval(() => {
+      extendLock.call(backend, lockKey, lock.token, Math.ceil(lockTtl / 1000))
+        .then((extended) => {
+          if (!extended) {
+            // Another holder took over; fenced writes keep it from being overwritten
+            clearInterval(timer);
             logger.log({
               type: 'ERROR',
-              key: staleKey,
-              error: staleError instanceof Error ? staleError : new Error(String(staleError)),
+              key: lockKey,
+              error: new CacheLockError(`Lost lock ${lockKey} before the fetcher finished`),
             });
           }
-        }
-        
-        throw error;
-      } finally {
-        // Always release the lock
-        try {
-          await backend.unlock(lockKey);
-        } catch (unlockError) {
-          // Just log unlock errors, don't throw
-          logger.log({ 
-            type: 'ERROR', 
-            key: lockKey, 
-            error: new CacheBackendError(
-              `Failed to release lock: ${unlockError instanceof Error ? unlockError.message : String(unlockError)}`,
-              unlockError instanceof Error ? unlockError : undefined
-            ),
-          });
-        }
-      }
-    } else {
-      // Lock not acquired, wait for the value to be available
-      logger.log({ type: 'WAIT', key: lockKey });
-      
-      // Exponential backoff polling implementation
-      const startTime = Date.now();
-      let pollInterval = 50; // Start with 50ms
-      const maxPollInterval = 500; // Max 500ms between polls
-      
-      while (Date.now() - startTime < fetchOptions.lockTimeout) {
-        // Sleep with exponential backoff
-        await new Promise((resolve) => setTimeout(resolve, pollInterval));
-        
-        // Check if the value is now available
-        try {
-          const value = await backend.get(fullKey) as R | undefined;
-          if (value !== undefined) {
-            return value;
-          }
-        } catch (error) {
-          // Continue polling even if get fails
+        })
+        .catch((error) => {
+          // Just log renewal errors, the next renewal may succeed
           logger.log({
             type: 'ERROR',
-            key: fullKey,
+            key: lockKey,
             error: error instanceof Error ? error : new Error(String(error)),
           });
-        }
-        
-        // Exponential backoff: double the interval, but cap it
-        pollInterval = Math.min(pollInterval * 1.5, maxPollInterval);
-      }
-      
-      // Timeout waiting for the value
-      throw new CacheTimeoutError(
-        `Timeout waiting for ${key} (${fetchOptions.lockTimeout}ms)`
-      );
-    }
+        });
+    }, lockTtl / 3);
+    timer.unref?.();
+    return () => clearInterval(timer);
   };
 
   /**
-   * Clean up expired L1 cache entries
+   * Last-resort stale tier: an expired entry still held by L1, when fallbackToStale is enabled
    */
-  const cleanupL1Cache = () => {
-    const now = Date.now();
-    for (const [key, item] of l1Cache.entries()) {
-      if (item.expiresAt <= now) {
-        l1Cache.delete(key);
+  const getL1Stale = <R>(fullKey: string, fetchOptions: ResolvedFetchOptions): { value: R } | undefined =>
+    fallbackToStale && !fetchOptions.skipL1
+      ? l1Cache.getStale(fullKey) as { value: R } | undefined
+      : undefined;
+
+  /**
+   * Read the backend's stale copy, then fall back to an expired L1 entry
+   */
+  const readStale = async <R>(
+    fullKey: string,
+    fetchOptions: ResolvedFetchOptions,
+  ): Promise<{ value: R } | undefined> => {
+    if (fallbackToStale && fetchOptions.staleTtl) {
+      const staleKey = `stale:${fullKey}`;
+      try {
+        const staleEntry = await readEntry<R>(staleKey, getSchema(fetchOptions));
+        if (staleEntry) {
+          return { value: staleEntry.value };
+        }
+      } catch (error) {
+        logger.log({
+          type: 'ERROR',
+          key: staleKey,
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
       }
     }
+    return getL1Stale<R>(fullKey, fetchOptions);
   };
 
-  // Clean up L1 cache periodically
-  setInterval(cleanupL1Cache, 5000); // Every 5 seconds
+  /**
+   * Run the fetcher while holding the lock and store its result. Falls back to
+   * the stale copy when the fetcher fails, if enabled.
+   */
+  const fetchAsHolder = async <R>(
+    fullKey: string,
+    lockKey: string,
+    lock: CacheLock,
+    fetcher: CacheFetcher<R>,
+    fetchOptions: ResolvedFetchOptions,
+  ): Promise<R> => {
+    let outcome = LOCK_FAILED;
+    const stopRenewal = startLockRenewal(lockKey, lock, fetchOptions);
+    try {
+      logger.log({ type: 'LOCK', key: lockKey });
+      
+      // Execute the fetcher and cache the result
+      const startTime = Date.now();
+      const value = await runFetcher(fullKey, fetcher, fetchOptions.fetchTimeout, fetchOptions.signal);
+      try {
+        const stored = await storeValue(fullKey, value, fetchOptions, Date.now() - startTime, getFencing(lockKey, lock));
+        outcome = stored ? LOCK_RELEASED : LOCK_UNCACHED;
+      } catch (error) {
+        if (!failOpen) throw error;
+        // Serve the fresh value even though it could not be cached
+        logBackendFailure(fullKey, error);
+      }
+      
+      return value;
+    } catch (error) {
+      logger.log({ 
+        type: 'ERROR', 
+        key: fullKey, 
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+
+      // The caller gave up, so it gets its abort reason rather than stale data
+      if (fetchOptions.signal?.aborted) {
+        outcome = LOCK_ABANDONED;
+        throw error;
+      }
+      
+      // If fallback to stale is enabled, try to get stale value
+      if (fallbackToStale && fetchOptions.staleTtl) {
+        const staleKey = `stale:${fullKey}`;
+        try {
+          const staleEntry = await readEntry<R>(staleKey, getSchema(fetchOptions));
+          if (staleEntry) {
+            logger.log({ type: 'HIT', key: `stale:${fullKey}` });
+            return staleEntry.value;
+          }
+        } catch (staleError) {
+          // Just log stale cache errors, continue with original error
+          logger.log({
+            type: 'ERROR',
+            key: staleKey,
+            error: staleError instanceof Error ? staleError : new Error(String(staleError)),
+          });
+        }
+      }
+
+      const l1Stale = getL1Stale<R>(fullKey, fetchOptions);
+      if (l1Stale) {
+        logger.log({ type: 'STALE', key: fullKey });
+        return l1Stale.value;
+      }
+      
+      throw error;
+    } finally {
+      // Always release the lock, then wake up waiters
+      stopRenewal();
+      await releaseLock(lockKey, lock);
+      await notifyWaiters(lockKey, outcome);
+    }
+  };
+
+  /**
+   * Wait for the lock holder to produce a value. Waiters wake up as soon as the
+   * holder announces completion when the backend supports pub/sub, and poll
+   * with exponential backoff otherwise (or in case a message is missed).
+   * When the backend renews locks, waiting continues past waitTimeout while the
+   * lock is still held, and a waiter takes over a lock that has been abandoned.
+   */
+  const waitForValue = async <R>(
+    key: string,
+    fullKey: string,
+    lockKey: string,
+    fetcher: CacheFetcher<R>,
+    fetchOptions: ResolvedFetchOptions,
+  ): Promise<R> => {
+    let notification: string | undefined;
+    let wake = () => {};
+    let unsubscribe: (() => Promise<void>) | undefined;
+    if (backend.subscribe) {
+      try {
+        unsubscribe = await backend.subscribe(lockKey, (message) => {
+          notification = message;
+          wake();
+        });
+      } catch (error) {
+        // Fall back to polling only
+        logger.log({
+          type: 'ERROR',
+          key: lockKey,
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+      }
+    }
+
+    // Stop waiting as soon as every caller has given up
+    const { signal } = fetchOptions;
+    const onAbort = () => wake();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      // Exponential backoff polling implementation
+      const waitTimeout = getWaitTimeout(fetchOptions);
+      let deadline = Date.now() + waitTimeout;
+      let pollInterval = 50; // Start with 50ms
+      const maxPollInterval = 500; // Max 500ms between polls
+      
+      for (;;) {
+        if (signal?.aborted) throw signal.reason;
+        if (Date.now() >= deadline) {
+          // Without lease renewal, a held lock says nothing about whether the holder is alive
+          if (!backend.extendLock) break;
+          let lock: CacheLock | null;
+          try {
+            lock = await acquireLock(lockKey, fetchOptions);
+          } catch (error) {
+            logger.log({
+              type: 'ERROR',
+              key: lockKey,
+              error: error instanceof Error ? error : new Error(String(error)),
+            });
+            break;
+          }
+          if (lock) {
+            // The holder's lease ran out without a value: take over
+            return fetchAsHolder(fullKey, lockKey, lock, fetcher, fetchOptions);
+          }
+          // The holder is still renewing its lease, keep waiting
+          deadline = Date.now() + waitTimeout;
+        }
+
+        // Sleep with exponential backoff, unless the holder already announced completion
+        if (notification === undefined) {
+          await new Promise<void>((resolve) => {
+            const timer = setTimeout(resolve, pollInterval);
+            wake = () => {
+              clearTimeout(timer);
+              resolve();
+            };
+          });
+        }
+        if (signal?.aborted) throw signal.reason;
+        
+        // Check if the value is now available
+        try {
+          const entry = await readEntry<R>(fullKey, getSchema(fetchOptions));
+          if (entry) {
+            return entry.value;
+          }
+        } catch (error) {
+          // Continue polling even if get fails
+          logger.log({
+            type: 'ERROR',
+            key: fullKey,
+            error: error instanceof Error ? error : new Error(String(error)),
+          });
+        }
+
+        // The holder's fetcher failed, so no value is coming
+        if (notification === LOCK_FAILED) {
+          throw new CacheLockError(`Lock holder failed to produce a value for ${key}`);
+        }
+        // The holder's value was not cached, so fetch our own, also uncached
+        if (notification === LOCK_UNCACHED) {
+          return runFetcher(fullKey, fetcher, fetchOptions.fetchTimeout, fetchOptions.signal);
+        }
+        // The holder was abandoned without a value: take over, unless another waiter got there first
+        if (notification === LOCK_ABANDONED) {
+          let lock: CacheLock | null = null;
+          try {
+            lock = await acquireLock(lockKey, fetchOptions);
+          } catch (error) {
+            logger.log({
+              type: 'ERROR',
+              key: lockKey,
+              error: error instanceof Error ? error : new Error(String(error)),
+            });
+          }
+          if (lock) {
+            return fetchAsHolder(fullKey, lockKey, lock, fetcher, fetchOptions);
+          }
+        }
+        notification = undefined;
+        
+        // Exponential backoff: double the interval, but cap it
+        pollInterval = Math.min(pollInterval * 1.5, maxPollInterval);
+      }
+      
+      // Timeout waiting for the value
+      throw new CacheTimeoutError(
+        `Timeout waiting for ${key} (${waitTimeout}ms)`
+      );
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      if (unsubscribe) {
+        try {
+          await unsubscribe();
+        } catch (error) {
+          logger.log({
+            type: 'ERROR',
+            key: lockKey,
+            error: error instanceof Error ? error : new Error(String(error)),
+          });
+        }
+      }
+    }
+  };
+
+  /**
+   * Refresh a value in the background. Only the caller that wins the distributed
+   * lock runs the fetcher, so at most one pod refreshes a key at a time.
+   */
+  const revalidateInBackground = (
+    fullKey: string,
+    fetcher: CacheFetcher<unknown>,
+    fetchOptions: ResolvedFetchOptions,
+  ): void => {
+    if (revalidating.has(fullKey)) return;
+    revalidating.add(fullKey);
+
+    const lockKey = `lock:${fullKey}`;
+    const revalidate = async () => {
+      const lock = await acquireLock(lockKey, fetchOptions);
+      if (!lock) return;
+
+      logger.log({ type: 'LOCK', key: lockKey });
+      let outcome = LOCK_FAILED;
+      const stopRenewal = startLockRenewal(lockKey, lock, fetchOptions);
+      try {
+        const startTime = Date.now();
+        // Background refreshes outlive the request that triggered them, so only fetchTimeout applies
+        const value = await runFetcher(fullKey, fetcher, fetchOptions.fetchTimeout, undefined);
+        const stored = await storeValue(fullKey, value, fetchOptions, Date.now() - startTime, getFencing(lockKey, lock));
+        outcome = stored ? LOCK_RELEASED : LOCK_UNCACHED;
+      } finally {
+        stopRenewal();
+        await releaseLock(lockKey, lock);
+        await notifyWaiters(lockKey, outcome);
+      }
+    };
+
+    revalidate()
+      .catch((error) => {
+        logger.log({
+          type: 'ERROR',
+          key: fullKey,
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+      })
+      .finally(() => revalidating.delete(fullKey));
+  };
+
+  /**
+   * Log a backend failure handled by failing open. Requests skipped while the
+   * circuit is open are already reported by the CIRCUIT event.
+   */
+  const logBackendFailure = (fullKey: string, error: unknown): void => {
+    if (error instanceof CacheCircuitOpenError) return;
+    logger.log({
+      type: 'ERROR',
+      key: fullKey,
+      error: error instanceof Error ? error : new Error(String(error)),
+    });
+  };
+
+  /**
+   * Fail open: run the fetcher without the backend and return its value uncached
+   */
+  const fetchUncached = <R>(
+    fullKey: string,
+    fetcher: CacheFetcher<R>,
+    fetchOptions: ResolvedFetchOptions,
+    error: unknown,
+  ): Promise<R> => {
+    logBackendFailure(fullKey, error);
+    return runFetcher(fullKey, fetcher, fetchOptions.fetchTimeout, fetchOptions.signal);
+  };
+
+  /**
+   * Read a value from the backend, or run the fetcher under the distributed lock.
+   * Callers in the same process share a single load per key (see fetch).
+   */
+  const load = async <R>(
+    key: string,
+    fullKey: string,
+    fetcher: CacheFetcher<R>,
+    fetchOptions: ResolvedFetchOptions,
+  ): Promise<R> => {
+    // Try to get from backend cache
+    try {
+      const generation = l1Cache.generation;
+      const entry = await callBackend(fullKey, () => readEntry<R>(fullKey, getSchema(fetchOptions)));
+      if (entry) {
+        const { value: cached, envelope } = entry;
+        // Store in L1 cache for future fast access
+        if (!fetchOptions.skipL1) {
+          l1Cache.set(fullKey, cached, generation);
+        }
+        logger.log({ type: 'HIT', key: fullKey });
+        slide(fullKey, cached, fetchOptions);
+
+        // Refresh hot keys before they expire, with rising probability (XFetch)
+        const beta = getEarlyRecomputeBeta(fetchOptions);
+        if (beta !== undefined && envelope && shouldRecomputeEarly(envelope, beta)) {
+          logger.log({ type: 'EARLY_RECOMPUTE', key: fullKey });
+          revalidateInBackground(fullKey, fetcher, fetchOptions);
+        }
+        return cached;
+      }
+    } catch (error) {
+      const stale = getL1Stale<R>(fullKey, fetchOptions);
+      if (stale) {
+        logBackendFailure(fullKey, error);
+        logger.log({ type: 'STALE', key: fullKey });
+        return stale.value;
+      }
+      if (failOpen) {
+        return fetchUncached(fullKey, fetcher, fetchOptions, error);
+      }
+      throw new CacheBackendError(
+        `Failed to get value from cache: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+    
+    // Serve the stale copy immediately and refresh it in the background
+    if (isStaleWhileRevalidate(fetchOptions) && shouldStoreStale(fetchOptions)) {
+      const staleKey = `stale:${fullKey}`;
+      try {
+        const staleEntry = await readEntry<R>(staleKey, getSchema(fetchOptions));
+        if (staleEntry) {
+          logger.log({ type: 'STALE', key: fullKey });
+          revalidateInBackground(fullKey, fetcher, fetchOptions);
+          return staleEntry.value;
+        }
+      } catch (error) {
+        // Just log stale cache errors, continue as a miss
+        logger.log({
+          type: 'ERROR',
+          key: staleKey,
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+      }
+    }
+
+    logger.log({ type: 'MISS', key: fullKey });
+    
+    // Try to acquire a lock
+    const lockKey = `lock:${fullKey}`;
+    let lock: CacheLock | null;
+    try {
+      lock = await acquireLock(lockKey, fetchOptions);
+    } catch (error) {
+      const stale = getL1Stale<R>(fullKey, fetchOptions);
+      if (stale) {
+        logBackendFailure(fullKey, error);
+        logger.log({ type: 'STALE', key: fullKey });
+        return stale.value;
+      }
+      if (failOpen) {
+        return fetchUncached(fullKey, fetcher, fetchOptions, error);
+      }
+      throw new CacheBackendError(
+        `Failed to acquire lock: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+    
+    if (lock) {
+      return fetchAsHolder(fullKey, lockKey, lock, fetcher, fetchOptions);
+    }
+
+    // Lock not acquired, wait for the value to be available
+    return waitOrStale(key, fullKey, lockKey, fetcher, fetchOptions);
+  };
+
+  /**
+   * Wait for another caller's lock to produce a value, serving stale data when it doesn't
+   */
+  const waitOrStale = async <R>(
+    key: string,
+    fullKey: string,
+    lockKey: string,
+    fetcher: CacheFetcher<R>,
+    fetchOptions: ResolvedFetchOptions,
+  ): Promise<R> => {
+    logger.log({ type: 'WAIT', key: lockKey });
+    
+    try {
+      return await waitForValue<R>(key, fullKey, lockKey, fetcher, fetchOptions);
+    } catch (error) {
+      // The holder never delivered a value: serve stale data rather than failing
+      if (error instanceof CacheTimeoutError || error instanceof CacheLockError) {
+        const stale = await readStale<R>(fullKey, fetchOptions);
+        if (stale) {
+          logger.log({ type: 'STALE', key: fullKey });
+          return stale.value;
+        }
+      }
+      throw error;
+    }
+  };
+
+  /**
+   * Fetch a value from cache or execute the fetcher function
+   */
+  const fetch = async <R = T>(
+    key: string,
+    fetcher: CacheFetcher<R>,
+    options?: CacheFetchOptions,
+  ): Promise<R> => {
+    const fullKey = getFullKey(key);
+    const fetchOptions: ResolvedFetchOptions = { ...DEFAULT_FETCH_OPTIONS, ...options };
+    const tags = fetchOptions.tags ?? [];
+    if (tags.length > 0 && !backend.tag) {
+      throw new CacheConfigError('Cache backend does not support tags');
+    }
+    if (fetchOptions.sliding && !backend.touch) {
+      throw new CacheConfigError('Cache backend does not support sliding expiration');
+    }
+    
+    // Try to get from L1 cache first
+    const l1Item = fetchOptions.skipL1 ? undefined : l1Cache.get(fullKey);
+    if (l1Item) {
+      logger.log({ type: 'HIT', key: fullKey });
+      slide(fullKey, l1Item.value, fetchOptions);
+      return l1Item.value as R;
+    }
+
+    const { signal } = fetchOptions;
+    if (signal?.aborted) throw signal.reason;
+
+    // Join a load already in flight for this key, so only one caller per process
+    // talks to the backend and the distributed lock
+    // A flight every caller has abandoned is about to fail with their abort reason
+    const existing = inflight.get(fullKey);
+    if (existing && !existing.controller.signal.aborted) {
+      existing.callers++;
+      existing.waiting++;
+      return followFlight<R>(existing, signal);
+    }
+
+    const controller = new AbortController();
+    const flight: Flight = {
+      promise: load(key, fullKey, fetcher, { ...fetchOptions, signal: controller.signal }),
+      callers: 1,
+      waiting: 1,
+      controller,
+    };
+    inflight.set(fullKey, flight);
+    const settle = () => {
+      if (inflight.get(fullKey) === flight) inflight.delete(fullKey);
+      if (flight.callers > 1) {
+        logger.log({ type: 'COALESCED', key: fullKey, callers: flight.callers });
+      }
+    };
+    flight.promise.then(settle, settle);
+    return followFlight<R>(flight, signal);
+  };
+
+  /**
+   * Run a batch fetcher and check that it returned one value per key
+   */
+  const runBatchFetcher = async <R>(
+    keys: string[],
+    batchFetcher: CacheBatchFetcher<R>,
+    fetchOptions: ResolvedFetchOptions,
+  ): Promise<R[]> => {
+    const batchKey = keys.map(getFullKey).join(', ');
+    const values = await runFetcher(
+      batchKey,
+      (signal) => batchFetcher(keys, signal),
+      fetchOptions.fetchTimeout,
+      fetchOptions.signal,
+    );
+    return checkBatchValues(values, keys.length);
+  };
+
+  /**
+   * Run the batch fetcher for the keys whose locks we hold and store the results.
+   * When the fetcher fails, falls back to stale copies if every key has one.
+   */
+  const fetchManyAsHolder = async <R>(
+    held: Array<{ key: string; fullKey: string; lockKey: string; lock: CacheLock }>,
+    batchFetcher: CacheBatchFetcher<R>,
+    fetchOptions: ResolvedFetchOptions,
+  ): Promise<R[]> => {
+    let outcomes: string[] | undefined;
+    const batchKey = held.map(({ fullKey }) => fullKey).join(', ');
+    const stopRenewals = held.map(({ lockKey, lock }) => startLockRenewal(lockKey, lock, fetchOptions));
+    try {
+      for (const { lockKey } of held) {
+        logger.log({ type: 'LOCK', key: lockKey });
+      }
+
+      const startTime = Date.now();
+      const values = await runBatchFetcher(held.map(({ key }) => key), batchFetcher, fetchOptions);
+      try {
+        const stored = await storeValues(
+          held.map(({ fullKey }, index) => ({ fullKey, value: values[index] })),
+          fetchOptions,
+          Date.now() - startTime,
+        );
+        outcomes = stored.map((isStored) => (isStored ? LOCK_RELEASED : LOCK_UNCACHED));
+      } catch (error) {
+        if (!failOpen) throw error;
+        // Serve the fresh values even though they could not be cached
+        logBackendFailure(batchKey, error);
+      }
+
+      return values;
+    } catch (error) {
+      logger.log({
+        type: 'ERROR',
+        key: batchKey,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+
+      // The caller gave up, so it gets its abort reason rather than stale data
+      if (fetchOptions.signal?.aborted) {
+        outcomes = held.map(() => LOCK_ABANDONED);
+        throw error;
+      }
+
+      const stale = await Promise.all(held.map(({ fullKey }) => readStale<R>(fullKey, fetchOptions)));
+      if (stale.every((entry) => entry !== undefined)) {
+        for (const { fullKey } of held) {
+          logger.log({ type: 'STALE', key: fullKey });
+        }
+        return stale.map((entry) => (entry as { value: R }).value);
+      }
+
+      throw error;
+    } finally {
+      // Always release the locks, then wake up waiters
+      for (const stopRenewal of stopRenewals) {
+        stopRenewal();
+      }
+      await Promise.all(held.map(async ({ lockKey, lock }, index) => {
+        await releaseLock(lockKey, lock);
+        await notifyWaiters(lockKey, outcomes?.[index] ?? LOCK_FAILED);
+      }));
+    }
+  };
+
+  /**
+   * Lock the keys missing from the cache, fetch the ones we hold in one batch,
+   * and wait for the ones other callers are loading
+   */
+  const loadMany = async <R>(
+    keys: string[],
+    batchFetcher: CacheBatchFetcher<R>,
+    fetchOptions: ResolvedFetchOptions,
+  ): Promise<R[]> => {
+    let lockError: unknown;
+    const locks = await Promise.all(keys.map(async (key) => {
+      const fullKey = getFullKey(key);
+      const lockKey = `lock:${fullKey}`;
+      let lock: CacheLock | null = null;
+      try {
+        lock = await acquireLock(lockKey, fetchOptions);
+      } catch (error) {
+        lockError = error;
+      }
+      return { key, fullKey, lockKey, lock };
+    }));
+
+    if (lockError !== undefined) {
+      await Promise.all(locks.map(({ lockKey, lock }) => lock && releaseLock(lockKey, lock)));
+      if (failOpen) {
+        logBackendFailure(locks.map(({ fullKey }) => fullKey).join(', '), lockError);
+        return runBatchFetcher(keys, batchFetcher, fetchOptions);
+      }
+      throw new CacheBackendError(
+        `Failed to acquire lock: ${lockError instanceof Error ? lockError.message : String(lockError)}`,
+        lockError instanceof Error ? lockError : undefined
+      );
+    }
+
+    const held = locks.flatMap(({ lock, ...rest }) => (lock ? [{ ...rest, lock }] : []));
+    const contended = locks.filter(({ lock }) => !lock);
+    const [heldValues, contendedValues] = await Promise.all([
+      held.length > 0 ? fetchManyAsHolder(held, batchFetcher, fetchOptions) : [],
+      Promise.all(contended.map(({ key, fullKey, lockKey }) =>
+        // Takes over a single key if its holder abandons the lock
+        waitOrStale<R>(key, fullKey, lockKey, async (signal) => {
+          const [value] = checkBatchValues(await batchFetcher([key], signal), 1);
+          return value;
+        }, fetchOptions))),
+    ]);
+
+    const values = new Map<string, R>();
+    held.forEach(({ key }, index) => values.set(key, heldValues[index]));
+    contended.forEach(({ key }, index) => values.set(key, contendedValues[index]));
+    return keys.map((key) => values.get(key) as R);
+  };
+
+  /**
+   * Fetch several values, with one backend read and one batch fetch for the misses
+   */
+  const fetchMany = async <R = T>(
+    keys: string[],
+    batchFetcher: CacheBatchFetcher<R>,
+    options?: CacheFetchOptions,
+  ): Promise<R[]> => {
+    const fetchOptions: ResolvedFetchOptions = { ...DEFAULT_FETCH_OPTIONS, ...options };
+    const tags = fetchOptions.tags ?? [];
+    if (tags.length > 0 && !backend.tag) {
+      throw new CacheConfigError('Cache backend does not support tags');
+    }
+    if (fetchOptions.sliding && !backend.touch) {
+      throw new CacheConfigError('Cache backend does not support sliding expiration');
+    }
+
+    const values = new Map<string, R>();
+    const pending: string[] = [];
+    for (const key of new Set(keys)) {
+      const fullKey = getFullKey(key);
+      const l1Item = fetchOptions.skipL1 ? undefined : l1Cache.get(fullKey);
+      if (l1Item) {
+        logger.log({ type: 'HIT', key: fullKey });
+        slide(fullKey, l1Item.value, fetchOptions);
+        values.set(key, l1Item.value as R);
+      } else {
+        pending.push(key);
+      }
+    }
+
+    if (pending.length > 0) {
+      const fullKeys = pending.map(getFullKey);
+      let missing: string[] = [];
+      try {
+        const generation = l1Cache.generation;
+        const entries = await callBackend(
+          fullKeys.join(', '),
+          () => readEntries<R>(fullKeys, getSchema(fetchOptions)),
+        );
+        entries.forEach((entry, index) => {
+          if (!entry) {
+            logger.log({ type: 'MISS', key: fullKeys[index] });
+            missing.push(pending[index]);
+            return;
+          }
+          if (!fetchOptions.skipL1) {
+            l1Cache.set(fullKeys[index], entry.value, generation);
+          }
+          logger.log({ type: 'HIT', key: fullKeys[index] });
+          slide(fullKeys[index], entry.value, fetchOptions);
+          values.set(pending[index], entry.value);
+        });
+      } catch (error) {
+        if (!failOpen) {
+          throw new CacheBackendError(
+            `Failed to get values from cache: ${error instanceof Error ? error.message : String(error)}`,
+            error instanceof Error ? error : undefined
+          );
+        }
+        // Fail open: fetch every key that wasn't in L1, uncached
+        logBackendFailure(fullKeys.join(', '), error);
+        const fetched = await runBatchFetcher(pending, batchFetcher, fetchOptions);
+        pending.forEach((key, index) => values.set(key, fetched[index]));
+        missing = [];
+      }
+
+      if (missing.length > 0) {
+        const loaded = await loadMany(missing, batchFetcher, fetchOptions);
+        missing.forEach((key, index) => values.set(key, loaded[index]));
+      }
+    }
+
+    return keys.map((key) => values.get(key) as R);
+  };
+
+  /**
+   * Read an entry and its metadata without fetching, falling back to its stale copy
+   */
+  const inspect = async <R = T>(key: string): Promise<CacheEntryInfo<R> | undefined> => {
+    const fullKey = getFullKey(key);
+    for (const [entryKey, stale] of [[fullKey, false], [`stale:${fullKey}`, true]] as const) {
+      const entry = await readEntry<R>(entryKey, undefined);
+      if (entry) {
+        return {
+          key: entryKey,
+          value: entry.value,
+          metadata: entry.envelope && getMetadata(entry.envelope),
+          stale,
+        };
+      }
+    }
+    return undefined;
+  };
+
+  /**
+   * Read an entry for get/peek/has; under failOpen a backend failure reads as a miss
+   */
+  const readDirect = async <R>(
+    fullKey: string,
+  ): Promise<{ value: R } | undefined> => {
+    try {
+      return await callBackend(fullKey, () => readEntry<R>(fullKey, defaultSchema));
+    } catch (error) {
+      if (failOpen) {
+        logBackendFailure(fullKey, error);
+        return undefined;
+      }
+      throw new CacheBackendError(
+        `Failed to get value from cache: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  };
+
+  /**
+   * Read a value from L1 or the backend without fetching
+   */
+  const get = async <R = T>(key: string): Promise<R | undefined> => {
+    const fullKey = getFullKey(key);
+    const l1Item = l1Cache.get(fullKey);
+    if (l1Item) {
+      logger.log({ type: 'HIT', key: fullKey });
+      return l1Item.value as R;
+    }
+
+    const generation = l1Cache.generation;
+    const entry = await readDirect<R>(fullKey);
+    if (!entry) {
+      logger.log({ type: 'MISS', key: fullKey });
+      return undefined;
+    }
+    l1Cache.set(fullKey, entry.value, generation);
+    logger.log({ type: 'HIT', key: fullKey });
+    return entry.value;
+  };
+
+  /**
+   * Read a value from the backend without touching L1 or logging
+   */
+  const peek = async <R = T>(key: string): Promise<R | undefined> =>
+    (await readDirect<R>(getFullKey(key)))?.value;
+
+  /**
+   * Check whether a value is cached in the backend
+   */
+  const has = async (key: string): Promise<boolean> =>
+    (await readDirect(getFullKey(key))) !== undefined;
+
+  /**
+   * Write a value directly, with the same side effects as a fetched value
+   */
+  const set = async <R = T>(key: string, value: R, options?: CacheWriteOptions): Promise<void> => {
+    const fullKey = getFullKey(key);
+    const fetchOptions: ResolvedFetchOptions = { ...DEFAULT_FETCH_OPTIONS, ...options };
+    if ((fetchOptions.tags ?? []).length > 0 && !backend.tag) {
+      throw new CacheConfigError('Cache backend does not support tags');
+    }
+
+    // Never leave an older L1 copy behind when L1 is skipped for this write
+    l1Cache.delete(fullKey);
+    let stored: boolean;
+    try {
+      stored = await storeValue(fullKey, value, fetchOptions, 0);
+    } catch (error) {
+      throw new CacheBackendError(
+        `Failed to set value in cache: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+    // A value that has already expired replaces the previous one with nothing
+    if (!stored) {
+      await del(key);
+      return;
+    }
+    logger.log({ type: 'SET', key: fullKey });
+  };
+
+  /**
+   * Delete a value together with its stale copy and L1 entry
+   */
+  const del = async (key: string): Promise<void> => {
+    const fullKey = getFullKey(key);
+    l1Cache.delete(fullKey);
+    try {
+      await callBackend(fullKey, () => Promise.all([
+        backend.del(fullKey),
+        backend.del(`stale:${fullKey}`),
+      ]));
+    } catch (error) {
+      throw new CacheBackendError(
+        `Failed to delete value from cache: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+    await invalidationBus?.publish([fullKey]);
+    logger.log({ type: 'INVALIDATE', key: fullKey });
+  };
+
+  /**
+   * Memoize an async function, keyed by its name and a hash of its arguments
+   */
+  const wrap = <A extends unknown[], R>(
+    fn: (...args: A) => Promise<R>,
+    wrapOptions: CacheWrapOptions<A> = {},
+  ): CachedFunction<A, R> => {
+    const { name = fn.name, key: buildKey, ...fetchOptions } = wrapOptions;
+    if (!name && !buildKey) {
+      throw new CacheConfigError('Cannot derive cache keys for an anonymous function; pass a name');
+    }
+
+    const key = (...args: A): string => (buildKey ? buildKey(...args) : `${name}:${hashArgs(args)}`);
+    // Async so that a key that cannot be built rejects rather than throws
+    const cached = async (...args: A): Promise<R> => fetch<R>(key(...args), () => fn(...args), fetchOptions);
+    return Object.assign(cached, {
+      key,
+      invalidate: async (...args: A) => del(key(...args)),
+    });
+  };
+
+  /**
+   * Invalidate every key fetched with any of the given tags
+   */
+  const invalidateTags = async (tagsToInvalidate: string[]): Promise<void> => {
+    if (!backend.invalidateTags) {
+      throw new CacheConfigError('Cache backend does not support tags');
+    }
+    if (tagsToInvalidate.length === 0) return;
+
+    const fullTags = tagsToInvalidate.map(getFullKey);
+    let deletedKeys: string[];
+    try {
+      deletedKeys = await backend.invalidateTags(fullTags);
+    } catch (error) {
+      throw new CacheBackendError(
+        `Failed to invalidate tags: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    for (const deletedKey of deletedKeys) {
+      l1Cache.delete(deletedKey);
+    }
+    await invalidationBus?.publish(deletedKeys);
+    for (const fullTag of fullTags) {
+      logger.log({ type: 'INVALIDATE', key: fullTag });
+    }
+  };
+
+  /**
+   * Invalidate every key fetched with the given tag
+   */
+  const invalidateTag = (tag: string): Promise<void> => invalidateTags([tag]);
+
+  /**
+   * Stop background timers, leave the invalidation bus, stop key tracking and drop the L1 cache
+   */
+  const dispose = (): void => {
+    touchedUntil.clear();
+    invalidationBus?.dispose();
+    tracking
+      ?.then((stop) => stop?.())
+      .catch((error) => logger.log({
+        type: 'ERROR',
+        key: trackingKey,
+        error: error instanceof Error ? error : new Error(String(error)),
+      }));
+    l1Cache.dispose();
+  };
 
   return {
     fetch,
+    fetchMany,
+    wrap,
+    inspect,
+    get,
+    peek,
+    has,
+    set,
+    delete: del,
     backend,
     getFullKey,
+    invalidateTag,
+    invalidateTags,
+    dispose,
   };
 } 
\ No newline at end of file
@@ -0,0 +1,80 @@
+/**
+ * next-cachex: Typed cache key definitions
+ * Declares a key template together with its value type, TTLs and tags, so
+ * every use of a key family is type checked and shares one policy.
+ * @packageDocumentation
+ */
+
+import {
+  CacheConfigError,
+  CacheFetchOptions,
+  CacheKeyDefinition,
+  CacheKeyOptions,
+  CacheKeyParams,
+} from '../types';
+import { getDefaultHandler } from './fetchWithCache';
+
+/**
+ * Matches `{param}` placeholders in a key template
+ */
+const PLACEHOLDER = /\{([^{}]+)\}/g;
+
+/**
+ * Define a typed family of cache keys. The value type is given explicitly and
+ * the parameters are inferred from the template's `{param}` placeholders.
+ *
+ * @returns A function taking the key template and its policy
+ *
+ * @example
+ * ```ts
+ * const productKey = defineCacheKey<Product>()('product:{id}', {
+ *   ttl: 300,
+ *   tags: ({ id }) => ['products', `product:${id}`],
+ * });
+ *
+ * const product = await productKey.fetch({ id: 42 }, () => loadProduct(42));
+ * await productKey.invalidate({ id: 42 });
+ * ```
+ */
+export function defineCacheKey<V>() {
+  return <K extends string>(
+    template: K,
+    options: CacheKeyOptions<CacheKeyParams<K>> = {},
+  ): CacheKeyDefinition<CacheKeyParams<K>, V> => {
+    const { tags } = options;
+    // Leave unset TTLs out, so the handler's defaults still apply
+    const defaults: CacheFetchOptions = {};
+    if (options.ttl !== undefined) defaults.ttl = options.ttl;
+    if (options.staleTtl !== undefined) defaults.staleTtl = options.staleTtl;
+    const getHandler = () => options.handler ?? getDefaultHandler();
+
+    const key = (params: CacheKeyParams<K>): string =>
+      template.replace(PLACEHOLDER, (_, name: string) => {
+        const value = (params as Record<string, unknown>)[name];
+        if (value === undefined) {
+          throw new CacheConfigError(`Missing parameter "${name}" for cache key "${template}"`);
+        }
+        return String(value);
+      });
+
+    // fetch and invalidate are async so that missing parameters reject rather than throw
+    return {
+      template,
+      key,
+
+      async fetch(params, fetcher, fetchOptions) {
+        const defaultTags = typeof tags === 'function' ? tags(params) : tags ?? [];
+        const allTags = [...defaultTags, ...(fetchOptions?.tags ?? [])];
+        return getHandler().fetch<V>(key(params), fetcher, {
+          ...defaults,
+          ...fetchOptions,
+          tags: allTags.length > 0 ? allTags : undefined,
+        });
+      },
+
+      async invalidate(params) {
+        return getHandler().delete(key(params));
+      },
+    };
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * next-cachex: Cache entry envelope
+ * Values can be stored wrapped together with metadata about how they were
+ * produced. Raw values (written by older versions or directly to the backend)
+ * are still read transparently.
+ * @packageDocumentation
+ */
+
+import type { CacheEntryMetadata } from '../types';
+
+/**
+ * Property marking a stored object as an envelope
+ */
+const ENVELOPE_MARKER = '__cachex';
+
+/**
+ * A cached value together with its metadata
+ */
+export type CacheEnvelope<V = unknown> = CacheEntryMetadata & {
+  [ENVELOPE_MARKER]: 1;
+  value: V;
+};
+
+/**
+ * Metadata stored alongside a value
+ */
+export type CacheEnvelopeMeta = CacheEntryMetadata;
+
+/**
+ * Check whether a stored value is an envelope
+ * @param stored - The value read from the backend
+ */
+export function isEnvelope(stored: unknown): stored is CacheEnvelope {
+  return (
+    typeof stored === 'object' &&
+    stored !== null &&
+    (stored as Record<string, unknown>)[ENVELOPE_MARKER] === 1
+  );
+}
+
+/**
+ * Wrap a value with metadata for storage
+ * @param value - The value to store
+ * @param meta - Metadata to store alongside it
+ */
+export function wrapValue<V>(value: V, meta: CacheEnvelopeMeta): CacheEnvelope<V> {
+  return { [ENVELOPE_MARKER]: 1, value, ...meta };
+}
+
+/**
+ * Unwrap a stored value, accepting both envelopes and raw values
+ * @param stored - The value read from the backend
+ * @returns The value, plus its envelope when it was stored wrapped
+ */
+export function unwrapValue<V>(stored: unknown): { value: V; envelope?: CacheEnvelope<V> } {
+  if (isEnvelope(stored)) {
+    return { value: stored.value as V, envelope: stored as CacheEnvelope<V> };
+  }
+  return { value: stored as V };
+}
+
+/**
+ * Extract the metadata of an envelope, without the marker and the value
+ * @param envelope - The stored envelope
+ */
+export function getMetadata(envelope: CacheEnvelope): CacheEntryMetadata {
+  const metadata: Partial<CacheEnvelope> = { ...envelope };
+  delete metadata[ENVELOPE_MARKER];
+  delete metadata.value;
+  return metadata as CacheEntryMetadata;
+}
+
+/**
+ * Estimate the size of a value in bytes from its JSON form
+ * @returns The size, or Infinity for values that can't be serialized (circular, BigInt)
+ */
+export function estimateSize(value: unknown): number {
+  try {
+    const json = JSON.stringify(value);
+    return json === undefined ? 0 : Buffer.byteLength(json);
+  } catch {
+    return Infinity;
+  }
+}
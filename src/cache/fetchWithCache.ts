@@ -18,7 +18,7 @@
  * );
  * ```
  */
-import type { CacheFetchOptions, CacheHandler } from '../types';
+import type { CacheFetcher, CacheFetchOptions, CacheHandler } from '../types';
 import { createCacheHandler } from './createCacheHandler';
 import { createDefaultBackend } from '../backends';
 import { MemoryCacheBackend } from '../backends/memory';
@@ -46,17 +46,22 @@ export function getDefaultHandler() {
 
 export async function fetchWithCache<T>(
   key: string,
-  fetcher: () => Promise<T>,
+  fetcher: CacheFetcher<T>,
   options?: CacheFetchOptions,
 ): Promise<T> {
-  // For testing: if a backend is provided in options, create a temporary handler
+  // For testing: if a backend is provided in options, create a temporary handler,
+  // disposed afterwards so its subscriptions and timers don't pile up
   if (options?.backend) {
     const tempHandler = createCacheHandler({
       backend: options.backend,
       logger: options.logger,
       prefix: 'next-cachex',
     });
-    return tempHandler.fetch(key, fetcher, options);
+    try {
+      return await tempHandler.fetch(key, fetcher, options);
+    } finally {
+      tempHandler.dispose();
+    }
   }
   
   // Use the default handler
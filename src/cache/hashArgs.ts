@@ -0,0 +1,71 @@
+/**
+ * next-cachex: Argument hashing
+ * Derives stable cache key segments from function arguments.
+ * @packageDocumentation
+ */
+
+import { createHash } from 'crypto';
+import { CacheSerializationError } from '../types';
+
+/**
+ * Serialize a value deterministically: object keys are sorted, and values JSON
+ * can't tell apart (undefined, Dates, Maps, Sets, BigInts) are tagged. Class
+ * instances keep their state out of reach (URLs, `#private` fields), so they are
+ * serialized through their toJSON, or rejected.
+ */
+const stableStringify = (value: unknown, seen: Set<object>): string => {
+  if (value === undefined) return 'undefined';
+  if (typeof value === 'bigint') return `${value}n`;
+  if (typeof value === 'number') return Number.isFinite(value) ? JSON.stringify(value) : String(value);
+  if (typeof value === 'function' || typeof value === 'symbol') {
+    throw new CacheSerializationError(`Cannot derive a cache key from a ${typeof value} argument`);
+  }
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+
+  if (seen.has(value)) {
+    throw new CacheSerializationError('Cannot derive a cache key from a circular argument');
+  }
+  seen.add(value);
+  try {
+    if (value instanceof Date) return `Date(${value.toISOString()})`;
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => stableStringify(item, seen)).join(',')}]`;
+    }
+    if (value instanceof Map) {
+      const entries = [...value].map(([k, v]) => `${stableStringify(k, seen)}=>${stableStringify(v, seen)}`);
+      return `Map(${entries.sort().join(',')})`;
+    }
+    if (value instanceof Set) {
+      return `Set(${[...value].map((item) => stableStringify(item, seen)).sort().join(',')})`;
+    }
+    if (value instanceof RegExp) return `RegExp(${String(value)})`;
+    const prototype = Object.getPrototypeOf(value);
+    if (prototype !== Object.prototype && prototype !== null) {
+      const name = (prototype as { constructor?: { name?: string } }).constructor?.name || 'Object';
+      const { toJSON } = value as { toJSON?: unknown };
+      if (typeof toJSON !== 'function') {
+        throw new CacheSerializationError(`Cannot derive a cache key from a ${name} argument without toJSON`);
+      }
+      return `${name}(${stableStringify(toJSON.call(value), seen)})`;
+    }
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key], seen)}`);
+    return `{${entries.join(',')}}`;
+  } finally {
+    seen.delete(value);
+  }
+};
+
+/**
+ * Hash function arguments into a short, stable key segment. Equal arguments
+ * give equal hashes regardless of object key order.
+ * @param args - The arguments to hash
+ * @returns The SHA-1 hex digest of the arguments' stable serialization
+ * @throws CacheSerializationError for functions, symbols, circular structures and
+ *   class instances without toJSON
+ */
+export function hashArgs(args: unknown[]): string {
+  return createHash('sha1').update(stableStringify(args, new Set())).digest('hex');
+}
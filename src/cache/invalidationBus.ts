@@ -0,0 +1,130 @@
+/**
+ * next-cachex: L1 invalidation bus
+ * Broadcasts changed keys through the backend's pub/sub, so every handler
+ * sharing the prefix can evict them from its L1 cache.
+ * @packageDocumentation
+ */
+
+import { randomUUID } from 'crypto';
+import type { CacheBackend } from '../types';
+
+/**
+ * Delays between attempts to subscribe after a failure (ms)
+ */
+const MIN_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30000;
+
+/**
+ * Publishes and receives L1 invalidations
+ */
+export interface InvalidationBus {
+  /**
+   * Tell the other handlers on the channel to evict these keys
+   * @param keys - Full keys that were deleted or overwritten
+   */
+  publish(keys: string[]): Promise<void>;
+  /**
+   * Unsubscribe and stop retrying
+   */
+  dispose(): void;
+}
+
+/**
+ * Callbacks of an invalidation bus
+ */
+export interface InvalidationBusHandlers {
+  /**
+   * Evict keys another handler changed
+   */
+  evict(keys: string[]): void;
+  /**
+   * Evict everything, after messages may have been missed
+   */
+  flush(): void;
+  /**
+   * Report a failed publish or subscribe
+   */
+  onError(error: Error): void;
+}
+
+/**
+ * Create an invalidation bus and start listening. Messages from this bus itself are
+ * ignored. If subscribing fails, it is retried with backoff, and L1 is flushed once
+ * the subscription is up; it is also flushed whenever the backend reconnects.
+ *
+ * @param backend - A backend implementing publish and subscribe
+ * @param channel - The channel shared by all handlers with the same prefix
+ * @param handlers - What to do with received invalidations and errors
+ * @returns The bus
+ */
+export function createInvalidationBus(
+  backend: Required<Pick<CacheBackend<unknown>, 'publish' | 'subscribe'>>,
+  channel: string,
+  handlers: InvalidationBusHandlers,
+): InvalidationBus {
+  const { evict, flush, onError } = handlers;
+  // Identifies this handler's own messages, which it has already applied
+  const source = randomUUID();
+  let unsubscribe: (() => Promise<void>) | undefined;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let retryDelay = MIN_RETRY_DELAY;
+  let missedMessages = false;
+  let disposed = false;
+
+  const toError = (error: unknown) => (error instanceof Error ? error : new Error(String(error)));
+
+  const listener = (message: string) => {
+    let parsed: { source?: unknown; keys?: unknown };
+    try {
+      parsed = JSON.parse(message);
+    } catch {
+      return;
+    }
+    if (parsed.source === source || !Array.isArray(parsed.keys)) return;
+    evict(parsed.keys.filter((key): key is string => typeof key === 'string'));
+  };
+
+  const connect = async () => {
+    retryTimer = undefined;
+    try {
+      const remove = await backend.subscribe(channel, listener, { onReconnect: flush });
+      if (disposed) {
+        await remove();
+        return;
+      }
+      unsubscribe = remove;
+      retryDelay = MIN_RETRY_DELAY;
+      if (missedMessages) {
+        missedMessages = false;
+        flush();
+      }
+    } catch (error) {
+      onError(toError(error));
+      if (disposed) return;
+      missedMessages = true;
+      retryTimer = setTimeout(connect, retryDelay);
+      // Never keep the process alive just to retry
+      retryTimer.unref?.();
+      retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY);
+    }
+  };
+  void connect();
+
+  return {
+    async publish(keys) {
+      if (keys.length === 0) return;
+      try {
+        await backend.publish(channel, JSON.stringify({ source, keys }));
+      } catch (error) {
+        onError(toError(error));
+      }
+    },
+
+    dispose() {
+      disposed = true;
+      clearTimeout(retryTimer);
+      unsubscribe?.().catch((error) => onError(toError(error)));
+      unsubscribe = undefined;
+    },
+  };
+}
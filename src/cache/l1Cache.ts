@@ -0,0 +1,218 @@
+/**
+ * next-cachex: In-process L1 cache
+ * A small LRU cache in front of the backend for frequently accessed keys.
+ * @packageDocumentation
+ */
+
+import type { L1CacheOptions } from '../types';
+import { estimateSize } from './envelope';
+
+/**
+ * Default L1 settings
+ */
+const DEFAULT_L1_OPTIONS = {
+  enabled: true,
+  ttl: 1, // 1 second
+  staleTtl: 60, // 1 minute
+  maxEntries: 1000,
+  maxBytes: Infinity,
+  trackedTtl: 300, // 5 minutes
+};
+
+/**
+ * How often expired entries are pruned (ms)
+ */
+const PRUNE_INTERVAL = 5000;
+
+/**
+ * An in-process LRU cache with TTL and size bounds
+ */
+export interface L1Cache {
+  /**
+   * Whether the cache stores anything at all
+   */
+  readonly enabled: boolean;
+  /**
+   * Get a live entry, marking it as recently used
+   * @returns The entry, or undefined when missing or expired
+   */
+  get(key: string): { value: unknown } | undefined;
+  /**
+   * Get an entry even if it has expired, as long as it is within the stale window.
+   * Used as a last resort when the backend can't provide a value.
+   * @returns The entry, or undefined when missing or past the stale window
+   */
+  getStale(key: string): { value: unknown } | undefined;
+  /**
+   * Store a value, evicting least recently used entries to stay within bounds.
+   * @param generation - The generation read before the value was loaded. If keys were
+   *   invalidated since, the value may already be outdated and is kept for `ttl` only,
+   *   even while tracked.
+   */
+  set(key: string, value: unknown, generation?: number): void;
+  /**
+   * Remove an entry
+   */
+  delete(key: string): void;
+  /**
+   * Remove entries changed elsewhere, or all entries when keys is null
+   */
+  invalidate(keys: string[] | null): void;
+  /**
+   * Counts invalidations, so callers can tell whether one arrived during a load
+   */
+  readonly generation: number;
+  /**
+   * Switch between `ttl` and `trackedTtl` for new entries, as backend key tracking
+   * starts and stops. Stopping drops all entries, since changes may have gone unnoticed.
+   */
+  setTracking(active: boolean): void;
+  /**
+   * Remove all entries
+   */
+  clear(): void;
+  /**
+   * Remove entries past the stale window
+   */
+  prune(): void;
+  /**
+   * Number of entries currently held
+   */
+  readonly size: number;
+  /**
+   * Stop the prune timer and drop all entries
+   */
+  dispose(): void;
+}
+
+/**
+ * Create an L1 cache.
+ *
+ * @param options - TTL and size bounds
+ * @returns The L1 cache; a disabled cache stores nothing and starts no timers
+ */
+export function createL1Cache(options: L1CacheOptions = {}): L1Cache {
+  const { enabled, ttl, staleTtl, maxEntries, maxBytes, trackedTtl } = { ...DEFAULT_L1_OPTIONS, ...options };
+  const active = enabled && ttl > 0 && maxEntries > 0;
+  // Expired entries are kept until staleUntil as a last-resort stale tier
+  const entries = new Map<string, { value: unknown; expiresAt: number; staleUntil: number; size: number }>();
+  const trackBytes = maxBytes !== Infinity;
+  let totalBytes = 0;
+  let generation = 0;
+  let tracking = false;
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (entry) {
+      totalBytes -= entry.size;
+      entries.delete(key);
+    }
+  };
+
+  const clear = () => {
+    entries.clear();
+    totalBytes = 0;
+  };
+
+  const prune = () => {
+    const now = Date.now();
+    for (const [key, entry] of entries) {
+      if (entry.staleUntil <= now) {
+        remove(key);
+      }
+    }
+  };
+
+  let timer: ReturnType<typeof setInterval> | undefined;
+  if (enabled) {
+    timer = setInterval(prune, PRUNE_INTERVAL);
+    // Never keep the process (or a test runner) alive just for pruning
+    timer.unref?.();
+  }
+
+  return {
+    enabled: active,
+
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      const now = Date.now();
+      if (entry.expiresAt <= now) {
+        if (entry.staleUntil <= now) {
+          remove(key);
+        }
+        return undefined;
+      }
+      // Re-insert to mark as most recently used
+      entries.delete(key);
+      entries.set(key, entry);
+      return { value: entry.value };
+    },
+
+    getStale(key) {
+      const entry = entries.get(key);
+      if (!entry || entry.staleUntil <= Date.now()) return undefined;
+      return { value: entry.value };
+    },
+
+    set(key, value, loadedGeneration = generation) {
+      if (!active) return;
+      remove(key);
+
+      // Unserializable values can't be sized (Infinity), so they are never cached when bounded
+      const size = trackBytes ? estimateSize(value) : 0;
+      if (size > maxBytes) return;
+
+      const expiresAt = Date.now() + (tracking && loadedGeneration === generation ? trackedTtl : ttl) * 1000;
+      entries.set(key, { value, expiresAt, staleUntil: expiresAt + staleTtl * 1000, size });
+      totalBytes += size;
+
+      // Evict least recently used entries (the front of the Map) until within bounds
+      for (const oldestKey of entries.keys()) {
+        if (entries.size <= maxEntries && totalBytes <= maxBytes) break;
+        remove(oldestKey);
+      }
+    },
+
+    delete: remove,
+
+    invalidate(keys) {
+      generation++;
+      if (keys === null) {
+        clear();
+        return;
+      }
+      for (const key of keys) {
+        remove(key);
+      }
+    },
+
+    get generation() {
+      return generation;
+    },
+
+    setTracking(next) {
+      if (next === tracking) return;
+      // Values loaded before the switch may have changed unnoticed; keep them short-lived
+      generation++;
+      if (!next) clear();
+      tracking = next;
+    },
+
+    clear,
+
+    prune,
+
+    get size() {
+      return entries.size;
+    },
+
+    dispose() {
+      if (timer) {
+        clearInterval(timer);
+        timer = undefined;
+      }
+      clear();
+    },
+  };
+}
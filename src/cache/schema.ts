@@ -0,0 +1,29 @@
+/**
+ * next-cachex: Schema validation
+ * Runs any supported validator against a cached value.
+ * @packageDocumentation
+ */
+
+import type { CacheSchema } from '../types';
+
+/**
+ * Validate a value with a zod-style schema or a validator function
+ * @param schema - A schema with `safeParse` or `parse`, or a function returning the value or throwing
+ * @param value - The value read from the backend
+ * @returns The parsed value (validators may transform it), or what the validator reported
+ */
+export function validateValue<V>(
+  schema: CacheSchema<V>,
+  value: unknown,
+): { success: true; data: V } | { success: false; error: unknown } {
+  if (typeof schema !== 'function' && 'safeParse' in schema) {
+    const result = schema.safeParse(value);
+    return result.success ? result : { success: false, error: result.error };
+  }
+  try {
+    const data = typeof schema === 'function' ? schema(value) : schema.parse(value);
+    return { success: true, data };
+  } catch (error) {
+    return { success: false, error };
+  }
+}
@@ -20,8 +20,30 @@ export class CacheError extends Error {
  * Error thrown when a cache operation times out
  */
 export class CacheTimeoutError extends CacheError {
+  /**
+   * The backend operation that timed out (get, set, lock, ...), when known
+   */
+  operation?: string;
+  /**
+   * The key the operation was called with, when known
+   */
+  key?: string;
+
+  constructor(message: string, details: { operation?: string; key?: string } = {}) {
+    super(message);
+    this.operation = details.operation;
+    this.key = details.key;
+  }
+}
+
+/**
+ * Error thrown when a fetcher does not settle within `fetchTimeout`.
+ * The fetcher's AbortSignal is aborted with this error.
+ */
+export class CacheFetchTimeoutError extends CacheTimeoutError {
   constructor(message: string) {
     super(message);
+    this.name = 'CacheFetchTimeoutError';
   }
 }
 
@@ -37,6 +59,16 @@ export class CacheBackendError extends CacheError {
   }
 }
 
+/**
+ * Error thrown instead of calling the backend while the circuit breaker is open
+ */
+export class CacheCircuitOpenError extends CacheBackendError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CacheCircuitOpenError';
+  }
+}
+
 /**
  * Error thrown when serialization or deserialization fails
  */
@@ -46,6 +78,20 @@ export class CacheSerializationError extends CacheError {
   }
 }
 
+/**
+ * Error reported when a cached value fails schema validation.
+ * The cause is whatever the validator reported (e.g. a ZodError).
+ */
+export class CacheValidationError extends CacheSerializationError {
+  cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = 'CacheValidationError';
+    this.cause = cause;
+  }
+}
+
 /**
  * Error thrown when cache configuration is invalid
  */
@@ -73,4 +119,15 @@ export class CacheLockError extends CacheError {
     super(message);
     this.name = 'CacheLockError';
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Fencing error, thrown when a write guarded by a lock is rejected because
+ * a newer lock holder has been issued a higher fencing token.
+ */
+export class CacheFencingError extends CacheLockError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CacheFencingError';
+  }
+}
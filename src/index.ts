@@ -7,6 +7,7 @@
 // Main exports
 export { fetchWithCache, cacheHandler } from './cache/fetchWithCache';
 export { createCacheHandler } from './cache/createCacheHandler';
+export { defineCacheKey } from './cache/defineCacheKey';
 
 // Types
 export * from './types';
@@ -16,3 +17,6 @@ export * from './backends';
 
 // Instrumentation utilities
 export { registerInitialCache, clearCache } from './instrumentation';
+
+// Next.js cache handler adapters
+export * from './next';
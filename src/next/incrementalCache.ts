@@ -0,0 +1,256 @@
+/**
+ * next-cachex: Next.js incremental cache adapter
+ * Lets Next.js store its ISR pages and fetch() data cache in any CacheBackend
+ * via the `cacheHandler` option in next.config.js.
+ * @packageDocumentation
+ */
+
+import type { CacheHandler, CacheLock } from '../types';
+import { CacheBackendError } from '../errors';
+import { encodeValue, decodeValue } from './serialization';
+import { getTagsExpiration, expireTags } from './tags';
+
+/**
+ * Value stored by Next.js in the incremental cache (APP_PAGE, PAGE, FETCH, ROUTE, ...).
+ * Typed loosely to avoid a hard dependency on Next.js internals.
+ */
+export interface NextIncrementalCacheValue {
+  kind: string;
+  tags?: string[];
+  headers?: Record<string, string | string[] | undefined>;
+  [key: string]: unknown;
+}
+
+/**
+ * Context passed by Next.js to `get`.
+ */
+export interface NextCacheGetContext {
+  kind?: string;
+  tags?: string[];
+  softTags?: string[];
+  fetchUrl?: string;
+  fetchIdx?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Context passed by Next.js to `set`.
+ * Next.js 14 passes `revalidate`; Next.js 15 passes `cacheControl`.
+ */
+export interface NextCacheSetContext {
+  revalidate?: number | false;
+  cacheControl?: { revalidate?: number | false; expire?: number };
+  tags?: string[];
+  fetchCache?: boolean;
+  fetchUrl?: string;
+  fetchIdx?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Entry returned to Next.js from `get`.
+ */
+export interface NextCacheHandlerValue {
+  lastModified: number;
+  value: NextIncrementalCacheValue | null;
+}
+
+/**
+ * Options for the Next.js incremental cache adapter.
+ */
+export interface NextCacheHandlerOptions {
+  /**
+   * The cache handler whose backend, prefix and version are used for storage
+   */
+  handler: CacheHandler<unknown>;
+  /**
+   * Seconds an entry is kept after its revalidate period when Next.js does not
+   * provide an explicit expiry, so stale pages can still be served while they regenerate.
+   * Defaults to 3600.
+   */
+  staleTtl?: number;
+  /**
+   * Lock timeout in milliseconds for concurrent writes of the same entry.
+   * Defaults to 5000.
+   */
+  lockTimeout?: number;
+}
+
+/**
+ * Shape of an entry stored in the backend
+ */
+interface StoredEntry {
+  lastModified: number;
+  tags: string[];
+  value: unknown;
+}
+
+/**
+ * Constructor signature Next.js expects from a `cacheHandler` module.
+ */
+export type NextCacheHandlerClass = new (context?: unknown) => NextCacheHandler;
+
+/**
+ * Next.js incremental cache handler backed by a next-cachex CacheHandler.
+ * Use createNextCacheHandler to get a class Next.js can instantiate.
+ */
+export class NextCacheHandler {
+  private handler: CacheHandler<unknown>;
+  private staleTtl: number;
+  private lockTimeout: number;
+
+  constructor(options: NextCacheHandlerOptions) {
+    this.handler = options.handler;
+    this.staleTtl = options.staleTtl ?? 3600;
+    this.lockTimeout = options.lockTimeout ?? 5000;
+  }
+
+  /**
+   * Read an entry. Returns null when missing or when any of its tags
+   * (including Next.js soft tags) was revalidated after it was written.
+   * @param key - The Next.js cache key
+   * @param ctx - Optional Next.js get context
+   */
+  async get(key: string, ctx?: NextCacheGetContext): Promise<NextCacheHandlerValue | null> {
+    const stored = (await this.handler.backend.get(this.handler.getFullKey(key))) as
+      | StoredEntry
+      | undefined;
+    if (!stored) return null;
+
+    const tags = [...stored.tags, ...(ctx?.tags ?? []), ...(ctx?.softTags ?? [])];
+    if (tags.length > 0) {
+      const revalidatedAt = await getTagsExpiration(this.handler, tags);
+      if (revalidatedAt >= stored.lastModified) {
+        return null;
+      }
+    }
+
+    return {
+      lastModified: stored.lastModified,
+      value: decodeValue(stored.value) as NextIncrementalCacheValue,
+    };
+  }
+
+  /**
+   * Write an entry. Passing null removes it.
+   * Concurrent writes of the same key from several pods are serialized with
+   * the handler's distributed lock; a writer that loses the race skips its write.
+   * @param key - The Next.js cache key
+   * @param data - The value to cache, or null to delete
+   * @param ctx - Next.js set context (revalidate, tags, ...)
+   */
+  async set(
+    key: string,
+    data: NextIncrementalCacheValue | null,
+    ctx: NextCacheSetContext = {},
+  ): Promise<void> {
+    const fullKey = this.handler.getFullKey(key);
+    if (data === null) {
+      await this.handler.backend.del(fullKey);
+      return;
+    }
+
+    const lockKey = `lock:${fullKey}`;
+    let lock: CacheLock | null;
+    try {
+      lock = await this.handler.backend.lock(lockKey, Math.ceil(this.lockTimeout / 1000));
+    } catch (error) {
+      throw new CacheBackendError(
+        `Failed to acquire lock: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+    if (!lock) return;
+
+    try {
+      const entry: StoredEntry = {
+        lastModified: Date.now(),
+        tags: collectTags(data, ctx),
+        value: encodeValue(data),
+      };
+      await this.handler.backend.set(fullKey, entry, { ttl: this.resolveTtl(ctx) });
+    } finally {
+      await this.handler.backend.unlock(lockKey, lock.token);
+    }
+  }
+
+  /**
+   * Revalidate one or more tags across all pods sharing the backend.
+   * @param tags - Tag or tags to revalidate
+   */
+  async revalidateTag(tags: string | string[]): Promise<void> {
+    await expireTags(this.handler, Array.isArray(tags) ? tags : [tags]);
+  }
+
+  /**
+   * Reset the per-request cache. Entries are always read from the shared
+   * backend, so there is no request-local state to clear.
+   */
+  resetRequestCache(): void {
+    // No-op
+  }
+
+  /**
+   * Resolve the backend TTL (seconds) for an entry, or undefined to keep it indefinitely
+   */
+  private resolveTtl(ctx: NextCacheSetContext): number | undefined {
+    if (ctx.cacheControl?.expire !== undefined) {
+      return ctx.cacheControl.expire;
+    }
+    const revalidate = ctx.cacheControl?.revalidate ?? ctx.revalidate;
+    if (typeof revalidate === 'number' && revalidate > 0) {
+      return revalidate + this.staleTtl;
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Collect every tag Next.js attached to an entry
+ */
+function collectTags(data: NextIncrementalCacheValue, ctx: NextCacheSetContext): string[] {
+  const tags = new Set<string>([...(ctx.tags ?? []), ...(data.tags ?? [])]);
+  const header = data.headers?.['x-next-cache-tags'];
+  if (header) {
+    const values = Array.isArray(header) ? header : header.split(',');
+    for (const tag of values) {
+      if (tag.trim()) tags.add(tag.trim());
+    }
+  }
+  return Array.from(tags);
+}
+
+/**
+ * Create a class Next.js can load via `cacheHandler` in next.config.js.
+ *
+ * @param options - Adapter configuration
+ * @returns A NextCacheHandler subclass bound to the given options
+ *
+ * @example
+ * ```js
+ * // cache-handler.mjs
+ * import Redis from 'ioredis';
+ * import { createCacheHandler, createNextCacheHandler, RedisCacheBackend } from 'next-cachex';
+ *
+ * const handler = createCacheHandler({
+ *   backend: new RedisCacheBackend(new Redis(process.env.REDIS_URL)),
+ *   prefix: 'myapp',
+ *   version: process.env.BUILD_ID,
+ * });
+ *
+ * export default createNextCacheHandler({ handler });
+ *
+ * // next.config.mjs
+ * export default {
+ *   cacheHandler: new URL('./cache-handler.mjs', import.meta.url).pathname,
+ *   cacheMaxMemorySize: 0, // disable the default in-memory cache
+ * };
+ * ```
+ */
+export function createNextCacheHandler(options: NextCacheHandlerOptions): NextCacheHandlerClass {
+  return class extends NextCacheHandler {
+    constructor(_context?: unknown) {
+      super(options);
+    }
+  };
+}
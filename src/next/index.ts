@@ -0,0 +1,18 @@
+/**
+ * next-cachex: Next.js cache handler adapters
+ * Plug next-cachex into Next.js's own caching layers.
+ * @packageDocumentation
+ */
+
+export { NextCacheHandler, createNextCacheHandler } from './incrementalCache';
+export type {
+  NextCacheHandlerOptions,
+  NextCacheHandlerClass,
+  NextCacheHandlerValue,
+  NextCacheGetContext,
+  NextCacheSetContext,
+  NextIncrementalCacheValue,
+} from './incrementalCache';
+
+export { createUseCacheHandler } from './useCache';
+export type { UseCacheHandler, UseCacheHandlerOptions, UseCacheEntry } from './useCache';
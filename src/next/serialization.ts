@@ -0,0 +1,78 @@
+/**
+ * next-cachex: Next.js value serialization
+ * Next.js cache entries contain Buffers and Maps (RSC payloads, segment data),
+ * which do not survive a JSON round trip. These helpers convert them into
+ * plain JSON-safe structures before they reach a CacheBackend.
+ * @packageDocumentation
+ */
+
+/**
+ * Marker property used to tag encoded non-JSON values
+ */
+const TYPE_MARKER = '__cachex_type';
+
+type EncodedBuffer = { [TYPE_MARKER]: 'Buffer'; base64: string };
+type EncodedMap = { [TYPE_MARKER]: 'Map'; entries: Array<[unknown, unknown]> };
+
+/**
+ * Encode a value so that Buffers, typed arrays and Maps can be stored as JSON.
+ * @param value - The value to encode
+ * @returns A JSON-safe representation of the value
+ */
+export function encodeValue(value: unknown): unknown {
+  if (value instanceof Uint8Array) {
+    const encoded: EncodedBuffer = {
+      [TYPE_MARKER]: 'Buffer',
+      base64: Buffer.from(value.buffer, value.byteOffset, value.byteLength).toString('base64'),
+    };
+    return encoded;
+  }
+  if (value instanceof Map) {
+    const encoded: EncodedMap = {
+      [TYPE_MARKER]: 'Map',
+      entries: Array.from(value.entries(), ([k, v]) => [encodeValue(k), encodeValue(v)]),
+    };
+    return encoded;
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeValue);
+  }
+  if (value !== null && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) {
+      if (v !== undefined) {
+        result[k] = encodeValue(v);
+      }
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Decode a value previously produced by encodeValue.
+ * @param value - The encoded value
+ * @returns The original value with Buffers and Maps restored
+ */
+export function decodeValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(decodeValue);
+  }
+  if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    if (record[TYPE_MARKER] === 'Buffer') {
+      return Buffer.from((record as EncodedBuffer).base64, 'base64');
+    }
+    if (record[TYPE_MARKER] === 'Map') {
+      return new Map(
+        (record as EncodedMap).entries.map(([k, v]) => [decodeValue(k), decodeValue(v)]),
+      );
+    }
+    const result: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(record)) {
+      result[k] = decodeValue(v);
+    }
+    return result;
+  }
+  return value;
+}
@@ -0,0 +1,53 @@
+/**
+ * next-cachex: Next.js tag revalidation timestamps
+ * Next.js tracks tag invalidation by time: an entry is stale when any of its
+ * tags was revalidated after the entry was written. Timestamps are stored in
+ * the handler's backend so every pod sees revalidations from every other pod.
+ * @packageDocumentation
+ */
+
+import type { CacheHandler } from '../types';
+
+/**
+ * Get the backend key holding the last revalidation time of a tag
+ * @param handler - The cache handler whose prefix/version to apply
+ * @param tag - The Next.js cache tag
+ */
+export function getTagKey(handler: CacheHandler<unknown>, tag: string): string {
+  return `revalidated:${handler.getFullKey(tag)}`;
+}
+
+/**
+ * Get the most recent revalidation time (ms since epoch) of any of the given tags.
+ * @param handler - The cache handler to read from
+ * @param tags - Tags to check
+ * @returns The latest revalidation timestamp, or 0 if none was revalidated
+ */
+export async function getTagsExpiration(
+  handler: CacheHandler<unknown>,
+  tags: string[],
+): Promise<number> {
+  const unique = Array.from(new Set(tags));
+  const timestamps = await Promise.all(
+    unique.map((tag) => handler.backend.get(getTagKey(handler, tag))),
+  );
+  return timestamps.reduce<number>(
+    (latest, timestamp) => (typeof timestamp === 'number' && timestamp > latest ? timestamp : latest),
+    0,
+  );
+}
+
+/**
+ * Mark the given tags as revalidated now.
+ * @param handler - The cache handler to write to
+ * @param tags - Tags to revalidate
+ * @param timestamp - Revalidation time (ms since epoch), defaults to now
+ */
+export async function expireTags(
+  handler: CacheHandler<unknown>,
+  tags: string[],
+  timestamp = Date.now(),
+): Promise<void> {
+  const unique = Array.from(new Set(tags));
+  await Promise.all(unique.map((tag) => handler.backend.set(getTagKey(handler, tag), timestamp)));
+}
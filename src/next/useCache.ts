@@ -0,0 +1,162 @@
+/**
+ * next-cachex: Next.js 'use cache' adapter
+ * Implements the Next.js 15 `cacheHandlers` interface used by the
+ * 'use cache' directive on top of any CacheBackend.
+ * @packageDocumentation
+ */
+
+import type { CacheHandler } from '../types';
+import { getTagsExpiration, expireTags } from './tags';
+
+/**
+ * Cache entry exchanged with Next.js. Durations are in seconds, timestamp in ms.
+ */
+export interface UseCacheEntry {
+  value: ReadableStream<Uint8Array>;
+  tags: string[];
+  stale: number;
+  timestamp: number;
+  expire: number;
+  revalidate: number;
+}
+
+/**
+ * Handler interface Next.js expects from a module listed in `cacheHandlers`.
+ */
+export interface UseCacheHandler {
+  get(cacheKey: string, softTags?: string[]): Promise<UseCacheEntry | undefined>;
+  set(cacheKey: string, pendingEntry: Promise<UseCacheEntry>): Promise<void>;
+  refreshTags(): Promise<void>;
+  getExpiration(...tags: string[]): Promise<number>;
+  expireTags(...tags: string[]): Promise<void>;
+}
+
+/**
+ * Options for the 'use cache' adapter.
+ */
+export interface UseCacheHandlerOptions {
+  /**
+   * The cache handler whose backend, prefix and version are used for storage
+   */
+  handler: CacheHandler<unknown>;
+}
+
+/**
+ * Shape of an entry stored in the backend; the stream is buffered as base64
+ */
+interface StoredUseCacheEntry extends Omit<UseCacheEntry, 'value'> {
+  value: string;
+}
+
+/**
+ * Read a byte stream to completion
+ */
+async function readStream(stream: ReadableStream<Uint8Array>): Promise<Buffer> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Create a single-chunk byte stream
+ */
+function createStream(bytes: Uint8Array): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(bytes);
+      controller.close();
+    },
+  });
+}
+
+/**
+ * Create a handler for the Next.js 15 `cacheHandlers` config ('use cache' directive).
+ * Entries are shared by every pod using the same backend, and tag expirations
+ * written by `expireTags` (or `revalidateTag`) apply to all of them.
+ *
+ * @param options - Adapter configuration
+ * @returns A handler Next.js can use for 'use cache'
+ *
+ * @example
+ * ```js
+ * // use-cache-handler.mjs
+ * import { createCacheHandler, createUseCacheHandler, createDefaultBackend } from 'next-cachex';
+ *
+ * export default createUseCacheHandler({
+ *   handler: createCacheHandler({ backend: createDefaultBackend(), prefix: 'myapp' }),
+ * });
+ *
+ * // next.config.mjs
+ * export default {
+ *   experimental: {
+ *     dynamicIO: true,
+ *     cacheHandlers: {
+ *       default: new URL('./use-cache-handler.mjs', import.meta.url).pathname,
+ *     },
+ *   },
+ * };
+ * ```
+ */
+export function createUseCacheHandler(options: UseCacheHandlerOptions): UseCacheHandler {
+  const { handler } = options;
+
+  return {
+    async get(cacheKey, softTags = []) {
+      const stored = (await handler.backend.get(handler.getFullKey(cacheKey))) as
+        | StoredUseCacheEntry
+        | undefined;
+      if (!stored) return undefined;
+
+      // Entries past their revalidate period are treated as misses so Next.js regenerates them
+      if (Date.now() > stored.timestamp + stored.revalidate * 1000) {
+        return undefined;
+      }
+
+      const tags = [...stored.tags, ...softTags];
+      if (tags.length > 0) {
+        const expiredAt = await getTagsExpiration(handler, tags);
+        if (expiredAt >= stored.timestamp) {
+          return undefined;
+        }
+      }
+
+      return { ...stored, value: createStream(Buffer.from(stored.value, 'base64')) };
+    },
+
+    async set(cacheKey, pendingEntry) {
+      let entry: UseCacheEntry;
+      try {
+        entry = await pendingEntry;
+      } catch {
+        // Next.js reports render errors itself; there is nothing to cache
+        return;
+      }
+
+      const bytes = await readStream(entry.value);
+      const stored: StoredUseCacheEntry = {
+        ...entry,
+        value: bytes.toString('base64'),
+      };
+      await handler.backend.set(handler.getFullKey(cacheKey), stored, {
+        ttl: entry.expire > 0 ? entry.expire : undefined,
+      });
+    },
+
+    async refreshTags() {
+      // Tag expirations are read from the shared backend on every get
+    },
+
+    async getExpiration(...tags) {
+      return getTagsExpiration(handler, tags);
+    },
+
+    async expireTags(...tags) {
+      await expireTags(handler, tags);
+    },
+  };
+}
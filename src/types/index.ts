@@ -23,9 +23,25 @@ export interface CacheBackend<T = unknown> {
    * Set a value in the cache.
    * @param key - The cache key to set
    * @param value - The value to cache
-   * @param options - Optional TTL in seconds
+   * @param options - Optional TTL in seconds, and an optional fencing token
+   * @throws CacheFencingError if `fencing` is given and a newer lock holder exists
    */
-  set(key: string, value: T, options?: { ttl?: number }): Promise<void>;
+  set(key: string, value: T, options?: CacheSetOptions): Promise<void>;
+
+  /**
+   * Get several values in one round trip.
+   * Optional: without it, fetchMany reads keys with parallel get calls.
+   * @param keys - The cache keys to retrieve
+   * @returns The values in the order of keys, undefined for missing keys
+   */
+  mget?(keys: string[]): Promise<Array<T | undefined>>;
+
+  /**
+   * Set several values in one round trip. Writes are not fenced.
+   * Optional: without it, fetchMany writes keys with parallel set calls.
+   * @param entries - The keys, values and optional TTLs in seconds to write
+   */
+  mset?(entries: Array<{ key: string; value: T; ttl?: number }>): Promise<void>;
 
   /**
    * Delete a value from the cache.
@@ -33,25 +49,211 @@ export interface CacheBackend<T = unknown> {
    */
   del(key: string): Promise<void>;
 
+  /**
+   * Reset the TTL of a value without rewriting it.
+   * Optional: required for sliding expiration.
+   * @param key - The cache key to touch
+   * @param ttl - New TTL in seconds, greater than 0
+   * @returns True if the key exists, false otherwise
+   */
+  touch?(key: string, ttl: number): Promise<boolean>;
+
   /**
    * Acquire a distributed lock for a key.
    * @param key - The lock key to acquire
    * @param ttl - Lock TTL in seconds
-   * @returns True if lock acquired, false otherwise
+   * @returns The held lock (with a unique token) if acquired, null otherwise
    */
-  lock(key: string, ttl: number): Promise<boolean>;
+  lock(key: string, ttl: number): Promise<CacheLock | null>;
 
   /**
-   * Release a distributed lock for a key.
+   * Release a distributed lock for a key, only if it is still held with the given token.
    * @param key - The lock key to release
+   * @param token - The token returned by lock
    */
-  unlock(key: string): Promise<void>;
+  unlock(key: string, token: string): Promise<void>;
+
+  /**
+   * Extend the TTL of a lock, only if it is still held with the given token.
+   * Optional: without it, locks are not renewed while long fetchers run.
+   * @param key - The lock key to extend
+   * @param token - The token returned by lock
+   * @param ttl - New lock TTL in seconds
+   * @returns True if the lock was extended, false if it is no longer held
+   */
+  extendLock?(key: string, token: string, ttl: number): Promise<boolean>;
 
   /**
    * Clear all cache entries for the current backend/prefix/namespace.
    * Optional: not all backends may support this.
    */
   clear?(): Promise<void>;
+
+  /**
+   * Record that the given keys belong to the given tags.
+   * Optional: required for tag-based invalidation.
+   * @param keys - The cache keys to tag
+   * @param tags - The tags to add the keys to
+   * @param ttl - Optional TTL in seconds; tag membership lives at least this long
+   */
+  tag?(keys: string[], tags: string[], ttl?: number): Promise<void>;
+
+  /**
+   * Delete every key belonging to any of the given tags, and the tags themselves.
+   * Optional: required for tag-based invalidation.
+   * @param tags - The tags to invalidate
+   * @returns The keys that were deleted
+   */
+  invalidateTags?(tags: string[]): Promise<string[]>;
+
+  /**
+   * Publish a message to all subscribers of a channel, on every pod.
+   * Optional: lets lock holders wake up waiters instead of waiters polling.
+   * @param channel - The channel to publish to
+   * @param message - The message to publish
+   */
+  publish?(channel: string, message: string): Promise<void>;
+
+  /**
+   * Subscribe to messages published on a channel.
+   * Optional: lets lock holders wake up waiters instead of waiters polling, and
+   * keeps L1 caches on other pods in sync.
+   * @param channel - The channel to subscribe to
+   * @param listener - Called with each message
+   * @param options - Optional callback for when the subscription is re-established
+   * @returns A function that removes the subscription
+   */
+  subscribe?(
+    channel: string,
+    listener: (message: string) => void,
+    options?: CacheSubscribeOptions,
+  ): Promise<() => Promise<void>>;
+
+  /**
+   * Watch for changes to keys made by any client, so an in-process cache can keep
+   * entries until they change instead of for a short TTL.
+   * Optional: implemented by RedisCacheBackend with `clientTracking: true`.
+   * Rejects when the server can't track keys.
+   * @param listener - Called with invalidations and tracking state changes
+   * @returns A function that stops delivering invalidations to the listener
+   */
+  track?(listener: CacheTrackingListener): Promise<() => Promise<void>>;
+}
+
+/**
+ * Receives invalidations from CacheBackend.track.
+ */
+export interface CacheTrackingListener {
+  /**
+   * Only watch keys (as passed to get and set) starting with this prefix.
+   * Defaults to every key.
+   */
+  prefix?: string;
+  /**
+   * Called with keys (as passed to get and set) changed by any client, or with
+   * null when every key must be considered changed, e.g. after FLUSHALL.
+   */
+  onInvalidate(keys: string[] | null): void;
+  /**
+   * Called when tracking is lost (false) and when it is re-established (true) after
+   * a reconnect. Invalidations in between were missed.
+   */
+  onStateChange?(active: boolean): void;
+}
+
+/**
+ * Options for CacheBackend.subscribe.
+ */
+export interface CacheSubscribeOptions {
+  /**
+   * Called when the subscription is re-established after a lost connection.
+   * Messages published while disconnected were missed.
+   */
+  onReconnect?: () => void;
+}
+
+/**
+ * A distributed lock held by the caller.
+ */
+export interface CacheLock {
+  /**
+   * Unique token identifying this holder; required to release the lock
+   */
+  token: string;
+  /**
+   * Fencing token: increases every time the lock key is acquired.
+   * Optional: backends that omit it do not support fenced writes.
+   */
+  fence?: number;
+}
+
+/**
+ * Metadata stored with every value written by a cache handler.
+ * Times are in ms since epoch.
+ */
+export interface CacheEntryMetadata {
+  /**
+   * When the value was written
+   */
+  createdAt: number;
+  /**
+   * When the value expires (createdAt + ttl), or undefined when it never expires
+   */
+  expiresAt?: number;
+  /**
+   * When the stale copy expires, if one was stored
+   */
+  staleUntil?: number;
+  /**
+   * Handler version that wrote the value
+   */
+  version?: string;
+  /**
+   * Tags the value was fetched with
+   */
+  tags?: string[];
+  /**
+   * How long the fetcher took to produce the value (ms)
+   */
+  fetchDurationMs: number;
+  /**
+   * Size of the value in bytes, estimated from its JSON form
+   */
+  size?: number;
+}
+
+/**
+ * A cached entry as returned by CacheHandler.inspect.
+ */
+export interface CacheEntryInfo<V = unknown> {
+  /**
+   * Full backend key the entry was read from (the stale key when `stale` is true)
+   */
+  key: string;
+  value: V;
+  /**
+   * Metadata, or undefined for raw values (written by older versions or directly to the backend)
+   */
+  metadata?: CacheEntryMetadata;
+  /**
+   * Whether the main entry is gone and only the stale copy was found
+   */
+  stale: boolean;
+}
+
+/**
+ * Options for CacheBackend.set.
+ */
+export interface CacheSetOptions {
+  /**
+   * TTL in seconds
+   */
+  ttl?: number;
+  /**
+   * Reject the write if a newer fencing token than `fence` was issued for `lockKey`,
+   * so a holder whose lock expired cannot overwrite a fresher value.
+   */
+  fencing?: { lockKey: string; fence: number };
 }
 
 /**
@@ -62,20 +264,327 @@ export interface CacheHandlerOptions<T = unknown> {
   prefix?: string;
   logger?: CacheLogger;
   fallbackToStale?: boolean;
+  /**
+   * Serve the stale copy immediately once `ttl` has passed (until `staleTtl`)
+   * and refresh the value in the background. Defaults to false.
+   */
+  staleWhileRevalidate?: boolean;
+  /**
+   * Probabilistically refresh values in the background before they expire (XFetch),
+   * so hot keys do not all expire at a hard boundary. Defaults to false.
+   */
+  earlyRecompute?: boolean | EarlyRecomputeOptions;
   version?: string;
+  /**
+   * In-process L1 cache settings
+   */
+  l1?: L1CacheOptions;
+  /**
+   * When the backend fails (or the circuit is open), call the fetcher directly
+   * and return its value uncached instead of throwing. Defaults to false.
+   */
+  failOpen?: boolean;
+  /**
+   * Stop contacting the backend after repeated failures. Enabled by default
+   * when failOpen is set; pass false to disable, or options to tune it.
+   */
+  circuitBreaker?: boolean | CircuitBreakerOptions;
+  /**
+   * Validate every value read from the backend. Values that fail are treated as
+   * a miss, deleted, and logged as INVALID. Can be overridden per fetch.
+   */
+  schema?: CacheSchema;
+}
+
+/**
+ * Validates cached values at runtime. Accepts zod-style schemas (`safeParse` or
+ * `parse`) and plain functions that return the value or throw, e.g.
+ * `(value) => v.parse(ProductSchema, value)` for valibot.
+ */
+export type CacheSchema<V = unknown> =
+  | { safeParse(value: unknown): { success: true; data: V } | { success: false; error?: unknown } }
+  | { parse(value: unknown): V }
+  | ((value: unknown) => V);
+
+/**
+ * State of the circuit breaker in front of the backend.
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Settings for the circuit breaker in front of the backend.
+ */
+export interface CircuitBreakerOptions {
+  /**
+   * Consecutive backend failures that open the circuit. Defaults to 5.
+   */
+  failureThreshold?: number;
+  /**
+   * How long the circuit stays open before probing the backend, in ms. Defaults to 30000.
+   */
+  resetTimeout?: number;
+  /**
+   * Concurrent requests allowed through while half-open. Defaults to 1.
+   */
+  halfOpenMaxProbes?: number;
+}
+
+/**
+ * Settings for the in-process L1 cache in front of the backend.
+ */
+export interface L1CacheOptions {
+  /**
+   * Whether to use the L1 cache. Defaults to true.
+   */
+  enabled?: boolean;
+  /**
+   * How long values stay in L1, in seconds. Defaults to 1.
+   */
+  ttl?: number;
+  /**
+   * How long expired values are kept as a last-resort stale copy, in seconds, for
+   * when the backend fails and `fallbackToStale` is enabled. Defaults to 60.
+   */
+  staleTtl?: number;
+  /**
+   * Maximum number of entries; least recently used entries are evicted first. Defaults to 1000.
+   */
+  maxEntries?: number;
+  /**
+   * Maximum total size in bytes, estimated from each value's JSON form. Defaults to unlimited.
+   */
+  maxBytes?: number;
+  /**
+   * Evict keys from the L1 caches of other handlers sharing the prefix when they are
+   * deleted, overwritten or tag-invalidated here, via the backend's publish/subscribe.
+   * Defaults to true; has no effect when the backend lacks publish or subscribe.
+   */
+  invalidation?: boolean;
+  /**
+   * How long values stay in L1, in seconds, while the backend tracks keys for this
+   * handler (see CacheBackend.track). Changed keys are evicted as soon as the backend
+   * reports them, so this can be much longer than `ttl`. Defaults to 300.
+   */
+  trackedTtl?: number;
+}
+
+/**
+ * Settings for probabilistic early recomputation (XFetch).
+ */
+export interface EarlyRecomputeOptions {
+  /**
+   * How aggressively to recompute early. 1 is the theoretical optimum;
+   * values above 1 favour earlier recomputation. Defaults to 1.
+   */
+  beta?: number;
 }
 
+/**
+ * Function producing a value on cache miss. The signal aborts on `fetchTimeout`
+ * or when the caller's `signal` aborts; pass it on to `fetch()` and the like.
+ */
+export type CacheFetcher<R> = (signal: AbortSignal) => Promise<R>;
+
+/**
+ * Loads the values of several keys at once, for CacheHandler.fetchMany.
+ * Receives the keys missing from the cache (without prefix/version) and must
+ * resolve to their values in the same order.
+ */
+export type CacheBatchFetcher<R> = (keys: string[], signal: AbortSignal) => Promise<R[]>;
+
 /**
  * Options for a single cache fetch operation.
  */
 export interface CacheFetchOptions {
-  ttl?: number;
+  /**
+   * How long the value is cached, in seconds, or a function of the fetched value
+   * returning it (e.g. from an upstream `Cache-Control: max-age`). Values a function
+   * gives 0 or less are not cached and logged as SKIP. Defaults to 300.
+   */
+  ttl?: number | ((value: unknown) => number);
+  /**
+   * Cache the value until this time instead of for ttl, e.g. until a sale ends, or a
+   * function of the fetched value returning it. Values whose expiry has already passed
+   * are not cached and logged as SKIP.
+   */
+  expiresAt?: Date | ((value: unknown) => Date);
+  /**
+   * Expire each value up to this fraction of its TTL earlier, at random (e.g. 0.1 for
+   * up to 10%), so keys written together don't expire together. The stale copy is
+   * moved by the same amount.
+   */
+  ttlJitter?: number;
   lockTimeout?: number;
   staleTtl?: number;
+  /**
+   * Abort the fetcher after this many ms. The fetcher's signal is aborted, the lock
+   * is released, and the fetch falls back to stale data when allowed or throws
+   * CacheFetchTimeoutError.
+   */
+  fetchTimeout?: number;
+  /**
+   * Abort the fetcher when this signal aborts (e.g. the incoming request was cancelled)
+   */
+  signal?: AbortSignal;
+  /**
+   * Lock lease in ms (defaults to lockTimeout). While the fetcher runs, the holder
+   * renews the lease every lockTtl / 3 if the backend supports extendLock.
+   */
+  lockTtl?: number;
+  /**
+   * How long waiters wait for the holder in ms (defaults to lockTimeout). If the
+   * backend supports extendLock, waiters keep waiting while the lock is still held,
+   * and take over once it has been abandoned.
+   */
+  waitTimeout?: number;
+  /**
+   * Tags to associate with the cached value, for use with invalidateTag/invalidateTags
+   */
+  tags?: string[];
+  /**
+   * Override the handler's staleWhileRevalidate setting for this fetch
+   */
+  staleWhileRevalidate?: boolean;
+  /**
+   * Keep the value while it is read: every hit resets its TTL (and its stale copy's),
+   * at most once per tenth of the TTL per key and process. Requires a backend with touch.
+   */
+  sliding?: boolean;
+  /**
+   * Override the handler's earlyRecompute setting for this fetch
+   */
+  earlyRecompute?: boolean | EarlyRecomputeOptions;
+  /**
+   * Bypass the in-process L1 cache for this fetch (neither read nor populated)
+   */
+  skipL1?: boolean;
+  /**
+   * Validate values read from the backend for this fetch, overriding the handler's schema
+   */
+  schema?: CacheSchema;
+  /**
+   * Only cache fetched values this returns true for, e.g. to skip error payloads.
+   * Other values are returned to the caller uncached and logged as SKIP.
+   */
+  cacheIf?: (value: unknown) => boolean;
+  /**
+   * TTL in seconds for null and undefined results, e.g. to cache "not found" briefly.
+   * 0 or less leaves them uncached.
+   */
+  negativeTtl?: number;
+  /**
+   * Choose the TTL in seconds for each fetched value; return undefined to fall back
+   * to negativeTtl, expiresAt or ttl, or 0 or less to leave the value uncached
+   */
+  ttlFor?: (value: unknown) => number | undefined;
   backend?: CacheBackend<unknown>; // For testing
   logger?: CacheLogger; // For testing
 }
 
+/**
+ * Options for writing a value directly with CacheHandler.set.
+ */
+export type CacheWriteOptions = Pick<
+  CacheFetchOptions,
+  'ttl' | 'expiresAt' | 'ttlJitter' | 'staleTtl' | 'tags' | 'staleWhileRevalidate' | 'skipL1'
+>;
+
+/**
+ * Options for CacheHandler.wrap: fetch settings for every call, plus how keys are built.
+ */
+export interface CacheWrapOptions<A extends unknown[]> extends Omit<CacheFetchOptions, 'signal'> {
+  /**
+   * First key segment; defaults to the function's name
+   */
+  name?: string;
+  /**
+   * Build the key (without prefix/version) from the arguments, instead of
+   * `${name}:${hash of the arguments}`
+   */
+  key?: (...args: A) => string;
+}
+
+/**
+ * A function wrapped by CacheHandler.wrap. Calls are cached by their arguments.
+ */
+export type CachedFunction<A extends unknown[], R> = ((...args: A) => Promise<R>) & {
+  /**
+   * The key (without prefix/version) a call with these arguments is cached under
+   */
+  key(...args: A): string;
+  /**
+   * Delete the cached result of a call with these arguments
+   */
+  invalidate(...args: A): Promise<void>;
+};
+
+/**
+ * Names of the `{param}` placeholders in a key template, e.g. 'id' | 'locale'
+ * for 'product:{id}:{locale}'.
+ */
+export type CacheKeyParamNames<K extends string> =
+  K extends `${string}{${infer Name}}${infer Rest}` ? Name | CacheKeyParamNames<Rest> : never;
+
+/**
+ * Parameters required to build a key from a template
+ */
+export type CacheKeyParams<K extends string> = {
+  [Name in CacheKeyParamNames<K>]: string | number | boolean;
+};
+
+/**
+ * Policy for a family of keys, passed to defineCacheKey.
+ */
+export interface CacheKeyOptions<P> {
+  /**
+   * Handler to cache through. Defaults to the handler used by fetchWithCache.
+   */
+  handler?: CacheHandler<unknown>;
+  /**
+   * Default TTL in seconds, or a function of the fetched value; can be overridden per fetch
+   */
+  ttl?: CacheFetchOptions['ttl'];
+  /**
+   * Default stale TTL in seconds; can be overridden per fetch
+   */
+  staleTtl?: number;
+  /**
+   * Tags for every key, or a function building them from the key's parameters.
+   * Tags passed to fetch are added to these.
+   */
+  tags?: string[] | ((params: P) => string[]);
+}
+
+/**
+ * A typed family of keys, returned by defineCacheKey.
+ */
+export interface CacheKeyDefinition<P, V> {
+  /**
+   * The key template, e.g. 'product:{id}'
+   */
+  readonly template: string;
+
+  /**
+   * Build the key (without prefix/version) for the given parameters
+   * @param params - Values for the template's placeholders
+   */
+  key(params: P): string;
+
+  /**
+   * Fetch the value for the given parameters, with the definition's TTLs and tags
+   * @param params - Values for the template's placeholders
+   * @param fetcher - Function to execute on cache miss
+   * @param options - Optional fetch settings, overriding the definition's defaults
+   */
+  fetch(params: P, fetcher: CacheFetcher<V>, options?: CacheFetchOptions): Promise<V>;
+
+  /**
+   * Delete the cached value for the given parameters
+   * @param params - Values for the template's placeholders
+   */
+  invalidate(params: P): Promise<void>;
+}
+
 /**
  * Logger interface for cache events.
  */
@@ -95,6 +604,14 @@ export type CacheLogEvent =
   | { type: 'MISS'; key: string }
   | { type: 'LOCK'; key: string }
   | { type: 'WAIT'; key: string }
+  | { type: 'STALE'; key: string }
+  | { type: 'EARLY_RECOMPUTE'; key: string }
+  | { type: 'COALESCED'; key: string; callers: number }
+  | { type: 'SET'; key: string }
+  | { type: 'SKIP'; key: string }
+  | { type: 'INVALIDATE'; key: string }
+  | { type: 'INVALID'; key: string; error: Error }
+  | { type: 'CIRCUIT'; key: string; state: CircuitState }
   | { type: 'ERROR'; key: string; error: Error };
 
 /**
@@ -102,13 +619,85 @@ export type CacheLogEvent =
  */
 export interface CacheHandler<T = unknown> {
   /**
-   * Fetch a value from the cache, or execute the fetcher function to get and cache the value
+   * Fetch a value from the cache, or execute the fetcher function to get and cache the value.
+   * Concurrent calls for the same key within a process share one load, using the
+   * first caller's fetcher and options.
    * @param key - The cache key to fetch
    * @param fetcher - Function to execute on cache miss
    * @param options - Optional fetch settings (ttl, lockTimeout, etc.)
    * @returns The cached or fetched value
    */
-  fetch<R = T>(key: string, fetcher: () => Promise<R>, options?: CacheFetchOptions): Promise<R>;
+  fetch<R = T>(key: string, fetcher: CacheFetcher<R>, options?: CacheFetchOptions): Promise<R>;
+
+  /**
+   * Fetch several values at once. Cached keys are read in one round trip (with
+   * the backend's mget, if any); the batch fetcher is called once for the keys
+   * this caller could lock, and the results are written back together (with mset,
+   * if any). Keys locked by other callers are waited for individually.
+   * @param keys - The cache keys to fetch
+   * @param batchFetcher - Function loading the missing keys
+   * @param options - Optional fetch settings, applied to every key
+   * @returns The values, in the order of keys
+   */
+  fetchMany<R = T>(keys: string[], batchFetcher: CacheBatchFetcher<R>, options?: CacheFetchOptions): Promise<R[]>;
+
+  /**
+   * Memoize an async function. Each call is cached under a key made of the
+   * function's name and a stable hash of its arguments.
+   * @param fn - The function to cache; its signature is kept
+   * @param options - Fetch settings for every call, and optionally the key's name or builder
+   * @returns The cached function, with `key(...args)` and `invalidate(...args)`
+   * @throws CacheConfigError if the function has no name and neither `name` nor `key` is given
+   */
+  wrap<A extends unknown[], R>(
+    fn: (...args: A) => Promise<R>,
+    options?: CacheWrapOptions<A>,
+  ): CachedFunction<A, R>;
+
+  /**
+   * Read a cached entry and its metadata without fetching, for debugging freshness.
+   * Falls back to the stale copy when the main entry has expired.
+   * @param key - The cache key (without prefix/version)
+   * @returns The entry, or undefined when neither the entry nor a stale copy exists
+   */
+  inspect<R = T>(key: string): Promise<CacheEntryInfo<R> | undefined>;
+
+  /**
+   * Read a cached value without fetching, from L1 or the backend. Populates L1 and
+   * logs HIT or MISS. Under failOpen, backend failures are logged and read as a miss.
+   * @param key - The cache key (without prefix/version)
+   * @returns The value, or undefined on a miss
+   */
+  get<R = T>(key: string): Promise<R | undefined>;
+
+  /**
+   * Read a cached value from the backend without populating L1 or logging
+   * @param key - The cache key (without prefix/version)
+   * @returns The value, or undefined on a miss
+   */
+  peek<R = T>(key: string): Promise<R | undefined>;
+
+  /**
+   * Check whether a value is cached; also true for cached undefined or null values
+   * @param key - The cache key (without prefix/version)
+   */
+  has(key: string): Promise<boolean>;
+
+  /**
+   * Write a value as if it had been fetched: stores it in the backend and L1,
+   * writes the stale copy and tags, and logs SET. A value whose expiry has already
+   * passed (or whose computed TTL is 0 or less) deletes the key instead, like delete.
+   * @param key - The cache key (without prefix/version)
+   * @param value - The value to cache
+   * @param options - TTLs and tags, as for fetch
+   */
+  set<R = T>(key: string, value: R, options?: CacheWriteOptions): Promise<void>;
+
+  /**
+   * Delete a value, its stale copy and its L1 entry, and log INVALIDATE
+   * @param key - The cache key (without prefix/version)
+   */
+  delete(key: string): Promise<void>;
   
   /**
    * The backend instance used by this handler
@@ -121,4 +710,21 @@ export interface CacheHandler<T = unknown> {
    * @returns The prefixed key
    */
   getFullKey(key: string): string;
+
+  /**
+   * Delete every cached value fetched with the given tag, on all pods sharing the backend
+   * @param tag - The tag to invalidate
+   */
+  invalidateTag(tag: string): Promise<void>;
+
+  /**
+   * Delete every cached value fetched with any of the given tags
+   * @param tags - The tags to invalidate
+   */
+  invalidateTags(tags: string[]): Promise<void>;
+
+  /**
+   * Stop background timers and release in-process resources held by the handler
+   */
+  dispose(): void;
 }
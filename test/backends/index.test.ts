@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
-import { createDefaultBackend, RedisCacheBackend } from '../../src/backends';
+import { createDefaultBackend, closeGlobalRedisClient, RedisCacheBackend } from '../../src/backends';
 import type Redis from 'ioredis';
 
 // Mock Redis
@@ -57,6 +57,17 @@ describe('backends/index', () => {
       expect(backend).toBeInstanceOf(RedisCacheBackend);
     });
 
+    it('should only expose track when clientTracking is enabled', () => {
+      expect(createDefaultBackend().track).toBeUndefined();
+      expect(createDefaultBackend({ clientTracking: true }).track).toBeTypeOf('function');
+    });
+
+    it('should wrap the backend with timeouts and retries when resilience is given', () => {
+      const backend = createDefaultBackend({ prefix: 'test', resilience: { operationTimeout: 200 } });
+      expect(backend).not.toBeInstanceOf(RedisCacheBackend);
+      expect(backend.tag).toBeTypeOf('function');
+    });
+
     it('should create global Redis client with environment variables', () => {
       // Set environment variables
       const originalEnv = process.env;
@@ -116,6 +127,23 @@ describe('backends/index', () => {
     });
   });
 
+  describe('closeGlobalRedisClient', () => {
+    it('should close the connections of default backends on the global client', () => {
+      // Forget backends created by earlier tests
+      closeGlobalRedisClient();
+      const backend = createDefaultBackend();
+      const ownClientBackend = createDefaultBackend({ redisClient: {} as unknown as Redis });
+      const closeSpy = vi.spyOn(RedisCacheBackend.prototype, 'close');
+
+      closeGlobalRedisClient();
+
+      expect(closeSpy).toHaveBeenCalledTimes(1);
+      expect(closeSpy.mock.contexts[0]).toBe(backend);
+      expect(closeSpy.mock.contexts).not.toContain(ownClientBackend);
+      closeSpy.mockRestore();
+    });
+  });
+
   describe('RedisCacheBackend export', () => {
     it('should export RedisCacheBackend class', () => {
       expect(RedisCacheBackend).toBeDefined();
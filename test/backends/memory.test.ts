@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { MemoryCacheBackend } from '../../src/backends/memory';
+import { CacheFencingError } from '../../src/errors';
+import type { CacheLock } from '../../src/types';
 
 describe('MemoryCacheBackend', () => {
   let backend: MemoryCacheBackend<number>;
@@ -39,16 +41,58 @@ describe('MemoryCacheBackend', () => {
   });
 
   it('should acquire and release locks', async () => {
-    const lockAcquired1 = await backend.lock('test-lock', 1);
-    expect(lockAcquired1).toBe(true);
+    const lock1 = await backend.lock('test-lock', 1);
+    expect(lock1).toEqual({ token: expect.any(String), fence: 1 });
     
-    const lockAcquired2 = await backend.lock('test-lock', 1);
-    expect(lockAcquired2).toBe(false);
+    const lock2 = await backend.lock('test-lock', 1);
+    expect(lock2).toBeNull();
     
-    await backend.unlock('test-lock');
+    await backend.unlock('test-lock', (lock1 as CacheLock).token);
     
-    const lockAcquired3 = await backend.lock('test-lock', 1);
-    expect(lockAcquired3).toBe(true);
+    const lock3 = await backend.lock('test-lock', 1);
+    expect(lock3?.fence).toBe(2);
+  });
+
+  it('should only release a lock for the token that holds it', async () => {
+    const stale = await backend.lock('test-lock', 0.05);
+    await new Promise(resolve => setTimeout(resolve, 80));
+    const current = await backend.lock('test-lock', 1);
+    expect(current).not.toBeNull();
+
+    // The expired holder must not release the new holder's lock
+    await backend.unlock('test-lock', (stale as CacheLock).token);
+    expect(await backend.lock('test-lock', 1)).toBeNull();
+
+    await backend.unlock('test-lock', (current as CacheLock).token);
+    expect(await backend.lock('test-lock', 1)).not.toBeNull();
+  });
+
+  it('should extend a lock only for the token that holds it', async () => {
+    const lock = await backend.lock('test-lock', 0.1) as CacheLock;
+
+    expect(await backend.extendLock('test-lock', 'other-token', 1)).toBe(false);
+    expect(await backend.extendLock('test-lock', lock.token, 1)).toBe(true);
+
+    await new Promise(resolve => setTimeout(resolve, 150));
+    expect(await backend.lock('test-lock', 1)).toBeNull();
+  });
+
+  it('should not extend an expired lock', async () => {
+    const lock = await backend.lock('test-lock', 0.05) as CacheLock;
+    await new Promise(resolve => setTimeout(resolve, 80));
+    expect(await backend.extendLock('test-lock', lock.token, 1)).toBe(false);
+  });
+
+  it('should reject writes fenced by an outdated token', async () => {
+    const stale = await backend.lock('lock:key', 0.05);
+    await new Promise(resolve => setTimeout(resolve, 80));
+    const current = await backend.lock('lock:key', 1);
+
+    await backend.set('key', 2, { fencing: { lockKey: 'lock:key', fence: (current as CacheLock).fence as number } });
+    await expect(
+      backend.set('key', 1, { fencing: { lockKey: 'lock:key', fence: (stale as CacheLock).fence as number } })
+    ).rejects.toThrow(CacheFencingError);
+    expect(await backend.get('key')).toBe(2);
   });
 
   it('should handle lock expiration', async () => {
@@ -56,14 +100,14 @@ describe('MemoryCacheBackend', () => {
     
     // Try to acquire the same lock immediately
     const lockAcquired = await backend.lock('test-lock', 1);
-    expect(lockAcquired).toBe(false);
+    expect(lockAcquired).toBeNull();
     
     // Wait for expiration
     await new Promise(resolve => setTimeout(resolve, 150));
     
     // Should be able to acquire the lock now
     const lockAcquiredAfterExpiry = await backend.lock('test-lock', 1);
-    expect(lockAcquiredAfterExpiry).toBe(true);
+    expect(lockAcquiredAfterExpiry).not.toBeNull();
   });
 
   it('should clear all data', async () => {
@@ -75,7 +119,7 @@ describe('MemoryCacheBackend', () => {
     
     expect(await backend.get('key1')).toBeUndefined();
     expect(await backend.get('key2')).toBeUndefined();
-    expect(await backend.lock('lock1', 1)).toBe(true); // Lock should be cleared
+    expect(await backend.lock('lock1', 1)).not.toBeNull(); // Lock should be cleared
   });
 
   it('should cleanup expired entries', async () => {
@@ -90,6 +134,63 @@ describe('MemoryCacheBackend', () => {
     
     // Should not be able to acquire the expired lock
     const lockAcquired = await backend.lock('expired-lock', 1);
-    expect(lockAcquired).toBe(true);
+    expect(lockAcquired).not.toBeNull();
+  });
+
+  it('should delete tagged keys on invalidateTags', async () => {
+    await backend.set('a', 1);
+    await backend.set('b', 2);
+    await backend.set('c', 3);
+    await backend.tag(['a', 'b'], ['t1']);
+    await backend.tag(['b', 'c'], ['t2']);
+
+    const deleted = await backend.invalidateTags(['t1']);
+
+    expect(deleted.sort()).toEqual(['a', 'b']);
+    expect(await backend.get('a')).toBeUndefined();
+    expect(await backend.get('b')).toBeUndefined();
+    expect(await backend.get('c')).toBe(3);
+    expect(await backend.invalidateTags(['t1'])).toEqual([]);
+  });
+
+  it('should drop tag members of removed entries on cleanup', async () => {
+    await backend.set('a', 1, { ttl: 0.05 });
+    await backend.tag(['a'], ['t1']);
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    backend.cleanup();
+
+    expect(await backend.invalidateTags(['t1'])).toEqual([]);
+  });
+
+  it('should deliver published messages to subscribers until they unsubscribe', async () => {
+    const received: string[] = [];
+    const unsubscribe = await backend.subscribe('channel', (message) => received.push(message));
+
+    await backend.publish('channel', 'one');
+    await backend.publish('other-channel', 'ignored');
+    await unsubscribe();
+    await backend.publish('channel', 'two');
+
+    expect(received).toEqual(['one']);
+  });
+
+  it('should read and write several keys at once', async () => {
+    await backend.mset([
+      { key: 'a', value: 1 },
+      { key: 'b', value: 2, ttl: 60 },
+    ]);
+
+    expect(await backend.mget(['a', 'missing', 'b'])).toEqual([1, undefined, 2]);
+  });
+
+  it('should reset the TTL of an existing key on touch', async () => {
+    await backend.set('test-key', 42, { ttl: 0.1 });
+
+    expect(await backend.touch('test-key', 0.3)).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 150));
+
+    expect(await backend.get('test-key')).toBe(42);
+    expect(await backend.touch('missing', 1)).toBe(false);
   });
-});
\ No newline at end of file
+});
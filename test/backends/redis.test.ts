@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { RedisCacheBackend } from '../../src/backends/redis';
-import { CacheSerializationError, CacheBackendError, CacheConfigError } from '../../src/types';
+import { CacheSerializationError, CacheBackendError, CacheConfigError, CacheFencingError } from '../../src/types';
 import type Redis from 'ioredis';
 
 // Mock Redis client
@@ -8,7 +8,122 @@ const mockRedisClient = {
   get: vi.fn(),
   set: vi.fn(),
   del: vi.fn(),
+  expire: vi.fn(),
+  zpopmin: vi.fn(),
+  zadd: vi.fn(),
   scan: vi.fn(),
+  eval: vi.fn(),
+  publish: vi.fn(),
+  duplicate: vi.fn(),
+  mget: vi.fn(),
+  pipeline: vi.fn(),
+  call: vi.fn(),
+  on: vi.fn(),
+  off: vi.fn(),
+};
+
+// Mock pipeline returned by pipeline()
+const mockPipeline = {
+  set: vi.fn(),
+  unlink: vi.fn(),
+  exec: vi.fn(),
+};
+
+// Mock subscriber connection returned by duplicate()
+const mockSubscriber = {
+  on: vi.fn(),
+  subscribe: vi.fn(),
+  unsubscribe: vi.fn(),
+  disconnect: vi.fn(),
+};
+
+// Mock tracking connections returned by duplicate() when client tracking is enabled:
+// one receives invalidations, the other has tracking enabled
+const mockTracker = {
+  on: vi.fn(),
+  call: vi.fn(),
+  subscribe: vi.fn(),
+  disconnect: vi.fn(),
+};
+const mockTrackingClient = {
+  on: vi.fn(),
+  call: vi.fn(),
+  disconnect: vi.fn(),
+};
+
+/**
+ * In-memory sorted sets with expiries, enough to run the tag script against.
+ * Times are in seconds; `now` is moved by the test.
+ */
+const createTagStore = () => {
+  const sets = new Map<string, { members: Map<string, number>; expiresAt?: number }>();
+  const touched = new Set<string>();
+  const store = {
+    now: 1000,
+    sets,
+    touched,
+    get(key: string) {
+      const set = sets.get(key);
+      if (set?.expiresAt !== undefined && set.expiresAt <= store.now) sets.delete(key);
+      return sets.get(key);
+    },
+    call(command: string, key?: string, ...args: Array<string | number>): unknown {
+      if (key !== undefined) touched.add(key);
+      const set = key === undefined ? undefined : store.get(key);
+      switch (command) {
+        case 'TIME':
+          return [undefined, String(store.now), '0'];
+        case 'TTL':
+          if (!set) return -2;
+          return set.expiresAt === undefined ? -1 : set.expiresAt - store.now;
+        case 'ZREMRANGEBYSCORE':
+          for (const [member, score] of set?.members ?? []) {
+            if (score <= Number(args[1])) set?.members.delete(member);
+          }
+          // Redis deletes a sorted set once it is empty
+          if (set && set.members.size === 0) sets.delete(key as string);
+          return 0;
+        case 'ZADD': {
+          const target = set ?? { members: new Map<string, number>() };
+          target.members.set(String(args[1]), args[0] === '+inf' ? Infinity : Number(args[0]));
+          sets.set(key as string, target);
+          return 1;
+        }
+        case 'PERSIST':
+          if (set) set.expiresAt = undefined;
+          return 1;
+        case 'EXPIRE':
+          if (set) set.expiresAt = store.now + Number(args[0]);
+          return 1;
+        default:
+          throw new Error(`Unexpected command ${command}`);
+      }
+    },
+  };
+  return store;
+};
+
+/**
+ * Run one of the backend's Lua scripts against a tag store, by rewriting the
+ * small subset of Lua the scripts use into JavaScript
+ */
+const runScript = (script: string, store: ReturnType<typeof createTagStore>, keys: string[], argv: Array<string | number>) => {
+  const body = script
+    .split('\n')
+    .map((line) => line
+      .replace(/^(\s*)--.*$/, '')
+      .replace(/^(\s*)local (\w+) = (.*)$/, '$1let $2 = $3;')
+      .replace(/^(\s*)for _, (\w+) in ipairs\((\w+)\) do$/, '$1for (const $2 of $3.slice(1)) {')
+      .replace(/^(\s*)for (\w+) = (\d+), #(\w+) do$/, '$1for (let $2 = $3; $2 < $4.length; $2++) {')
+      .replace(/^(\s*)if (.*) then$/, '$1if ($2) {')
+      .replace(/^(\s*)elseif (.*) then$/, '$1} else if ($2) {')
+      .replace(/^(\s*)end$/, '$1}')
+      .replace(/ and /g, ' && ')
+      .replace(/ or /g, ' || '))
+    .join('\n');
+  // Lua arrays are 1-based
+  const run = new Function('redis', 'tonumber', 'KEYS', 'ARGV', body);
+  return run({ call: store.call }, Number, [undefined, ...keys], [undefined, ...argv.map(String)]);
 };
 
 describe('RedisCacheBackend', () => {
@@ -193,42 +308,150 @@ describe('RedisCacheBackend', () => {
     });
   });
 
+  describe('touch', () => {
+    it('should reset the TTL in whole seconds', async () => {
+      mockRedisClient.expire.mockResolvedValue(1);
+
+      expect(await backendWithPrefix.touch('test-key', 59.5)).toBe(true);
+
+      expect(mockRedisClient.expire).toHaveBeenCalledWith('test:test-key', 60);
+    });
+
+    it('should return false for a missing key', async () => {
+      mockRedisClient.expire.mockResolvedValue(0);
+
+      expect(await backend.touch('missing', 60)).toBe(false);
+    });
+
+    it('should throw CacheBackendError for Redis errors', async () => {
+      mockRedisClient.expire.mockRejectedValue(new Error('Redis connection failed'));
+
+      await expect(backend.touch('test-key', 60)).rejects.toThrow('Redis touch operation failed');
+    });
+  });
+
+  describe('mget', () => {
+    it('should read all keys with one MGET and parse each value', async () => {
+      mockRedisClient.mget.mockResolvedValue([JSON.stringify({ foo: 'bar' }), null, '42']);
+
+      const result = await backendWithPrefix.mget(['a', 'b', 'c']);
+
+      expect(mockRedisClient.mget).toHaveBeenCalledWith('test:a', 'test:b', 'test:c');
+      expect(result).toEqual([{ foo: 'bar' }, undefined, 42]);
+    });
+
+    it('should not call Redis for an empty list', async () => {
+      expect(await backend.mget([])).toEqual([]);
+      expect(mockRedisClient.mget).not.toHaveBeenCalled();
+    });
+
+    it('should throw CacheSerializationError for invalid JSON', async () => {
+      mockRedisClient.mget.mockResolvedValue(['invalid-json']);
+
+      await expect(backend.mget(['a'])).rejects.toThrow(CacheSerializationError);
+    });
+
+    it('should throw CacheBackendError for Redis errors', async () => {
+      mockRedisClient.mget.mockRejectedValue(new Error('Redis connection failed'));
+
+      await expect(backend.mget(['a'])).rejects.toThrow('Redis mget operation failed');
+    });
+  });
+
+  describe('mset', () => {
+    beforeEach(() => {
+      mockRedisClient.pipeline.mockReturnValue(mockPipeline);
+    });
+
+    it('should write all entries in one pipeline', async () => {
+      mockPipeline.exec.mockResolvedValue([[null, 'OK'], [null, 'OK']]);
+
+      await backendWithPrefix.mset([
+        { key: 'a', value: { foo: 'bar' }, ttl: 60 },
+        { key: 'b', value: 'text' },
+      ]);
+
+      expect(mockRedisClient.pipeline).toHaveBeenCalledTimes(1);
+      expect(mockPipeline.set).toHaveBeenCalledWith('test:a', JSON.stringify({ foo: 'bar' }), 'EX', 60);
+      expect(mockPipeline.set).toHaveBeenCalledWith('test:b', JSON.stringify('text'));
+      expect(mockPipeline.exec).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw CacheBackendError when a command in the pipeline fails', async () => {
+      mockPipeline.exec.mockResolvedValue([[null, 'OK'], [new Error('OOM'), null]]);
+
+      await expect(backend.mset([{ key: 'a', value: 1 }, { key: 'b', value: 2 }]))
+        .rejects.toThrow(CacheBackendError);
+    });
+
+    it('should throw CacheBackendError when the pipeline fails', async () => {
+      mockPipeline.exec.mockRejectedValue(new Error('Redis connection failed'));
+
+      await expect(backend.mset([{ key: 'a', value: 1 }])).rejects.toThrow('Redis mset operation failed');
+    });
+  });
+
   describe('lock', () => {
-    it('should acquire lock successfully without prefix', async () => {
-      mockRedisClient.set.mockResolvedValue('OK');
+    it('should acquire lock with a unique token and fencing token without prefix', async () => {
+      mockRedisClient.eval.mockResolvedValue(1);
 
       const result = await backend.lock('test-key', 60);
 
-      expect(mockRedisClient.set).toHaveBeenCalledWith('test-key', '1', 'EX', 60, 'NX');
-      expect(result).toBe(true);
+      expect(mockRedisClient.eval).toHaveBeenCalledWith(
+        expect.stringContaining("'NX'"),
+        2,
+        'test-key',
+        'fence:test-key',
+        result?.token,
+        60,
+        86400
+      );
+      expect(result).toEqual({ token: expect.any(String), fence: 1 });
     });
 
     it('should acquire lock successfully with prefix', async () => {
-      mockRedisClient.set.mockResolvedValue('OK');
+      mockRedisClient.eval.mockResolvedValue(7);
 
       const result = await backendWithPrefix.lock('test-key', 60);
 
-      expect(mockRedisClient.set).toHaveBeenCalledWith('test:test-key', '1', 'EX', 60, 'NX');
-      expect(result).toBe(true);
+      expect(mockRedisClient.eval).toHaveBeenCalledWith(
+        expect.any(String),
+        2,
+        'test:test-key',
+        'test:fence:test-key',
+        expect.any(String),
+        60,
+        86400
+      );
+      expect(result?.fence).toBe(7);
+    });
+
+    it('should issue a different token for every acquisition', async () => {
+      mockRedisClient.eval.mockResolvedValue(1);
+
+      const first = await backend.lock('test-key', 60);
+      const second = await backend.lock('test-key', 60);
+
+      expect(first?.token).not.toBe(second?.token);
     });
 
     it('should fail to acquire lock when already exists', async () => {
-      mockRedisClient.set.mockResolvedValue(null);
+      mockRedisClient.eval.mockResolvedValue(null);
 
       const result = await backend.lock('test-key', 60);
 
-      expect(result).toBe(false);
+      expect(result).toBeNull();
     });
 
     it('should throw CacheBackendError for Redis errors', async () => {
-      mockRedisClient.set.mockRejectedValue(new Error('Redis connection failed'));
+      mockRedisClient.eval.mockRejectedValue(new Error('Redis connection failed'));
 
       await expect(backend.lock('test-key', 60)).rejects.toThrow(CacheBackendError);
       await expect(backend.lock('test-key', 60)).rejects.toThrow('Redis lock operation failed');
     });
 
     it('should handle non-Error objects in Redis errors', async () => {
-      mockRedisClient.set.mockRejectedValue('string error');
+      mockRedisClient.eval.mockRejectedValue('string error');
 
       await expect(backend.lock('test-key', 60)).rejects.toThrow(CacheBackendError);
       await expect(backend.lock('test-key', 60)).rejects.toThrow('string error');
@@ -236,34 +459,96 @@ describe('RedisCacheBackend', () => {
   });
 
   describe('unlock', () => {
-    it('should unlock successfully without prefix', async () => {
-      mockRedisClient.del.mockResolvedValue(1);
+    it('should compare-and-delete the lock without prefix', async () => {
+      mockRedisClient.eval.mockResolvedValue(1);
 
-      await backend.unlock('test-key');
+      await backend.unlock('test-key', 'token-1');
 
-      expect(mockRedisClient.del).toHaveBeenCalledWith('test-key');
+      expect(mockRedisClient.eval).toHaveBeenCalledWith(
+        expect.stringContaining("redis.call('GET', KEYS[1]) == ARGV[1]"),
+        1,
+        'test-key',
+        'token-1'
+      );
+      expect(mockRedisClient.del).not.toHaveBeenCalled();
     });
 
     it('should unlock successfully with prefix', async () => {
-      mockRedisClient.del.mockResolvedValue(1);
+      mockRedisClient.eval.mockResolvedValue(1);
 
-      await backendWithPrefix.unlock('test-key');
+      await backendWithPrefix.unlock('test-key', 'token-1');
 
-      expect(mockRedisClient.del).toHaveBeenCalledWith('test:test-key');
+      expect(mockRedisClient.eval).toHaveBeenCalledWith(expect.any(String), 1, 'test:test-key', 'token-1');
     });
 
     it('should throw CacheBackendError for Redis errors', async () => {
-      mockRedisClient.del.mockRejectedValue(new Error('Redis connection failed'));
+      mockRedisClient.eval.mockRejectedValue(new Error('Redis connection failed'));
 
-      await expect(backend.unlock('test-key')).rejects.toThrow(CacheBackendError);
-      await expect(backend.unlock('test-key')).rejects.toThrow('Redis unlock operation failed');
+      await expect(backend.unlock('test-key', 'token-1')).rejects.toThrow(CacheBackendError);
+      await expect(backend.unlock('test-key', 'token-1')).rejects.toThrow('Redis unlock operation failed');
     });
 
     it('should handle non-Error objects in Redis errors', async () => {
-      mockRedisClient.del.mockRejectedValue('string error');
+      mockRedisClient.eval.mockRejectedValue('string error');
 
-      await expect(backend.unlock('test-key')).rejects.toThrow(CacheBackendError);
-      await expect(backend.unlock('test-key')).rejects.toThrow('string error');
+      await expect(backend.unlock('test-key', 'token-1')).rejects.toThrow(CacheBackendError);
+      await expect(backend.unlock('test-key', 'token-1')).rejects.toThrow('string error');
+    });
+  });
+
+  describe('extendLock', () => {
+    it('should compare-and-expire the lock', async () => {
+      mockRedisClient.eval.mockResolvedValue(1);
+
+      const result = await backendWithPrefix.extendLock('test-key', 'token-1', 30);
+
+      expect(mockRedisClient.eval).toHaveBeenCalledWith(
+        expect.stringContaining("redis.call('EXPIRE', KEYS[1], ARGV[2])"),
+        1,
+        'test:test-key',
+        'token-1',
+        30
+      );
+      expect(result).toBe(true);
+    });
+
+    it('should return false when the lock is no longer held', async () => {
+      mockRedisClient.eval.mockResolvedValue(0);
+
+      expect(await backend.extendLock('test-key', 'token-1', 30)).toBe(false);
+    });
+
+    it('should throw CacheBackendError for Redis errors', async () => {
+      mockRedisClient.eval.mockRejectedValue(new Error('Redis connection failed'));
+
+      await expect(backend.extendLock('test-key', 'token-1', 30)).rejects.toThrow('Redis extendLock operation failed');
+    });
+  });
+
+  describe('fenced set', () => {
+    it('should write through a script checking the fencing counter', async () => {
+      mockRedisClient.eval.mockResolvedValue(1);
+
+      await backendWithPrefix.set('test-key', { a: 1 }, { ttl: 60, fencing: { lockKey: 'lock:test-key', fence: 3 } });
+
+      expect(mockRedisClient.eval).toHaveBeenCalledWith(
+        expect.any(String),
+        2,
+        'test:test-key',
+        'test:fence:lock:test-key',
+        '{"a":1}',
+        60,
+        3
+      );
+      expect(mockRedisClient.set).not.toHaveBeenCalled();
+    });
+
+    it('should throw CacheFencingError when a newer lock holder exists', async () => {
+      mockRedisClient.eval.mockResolvedValue(0);
+
+      await expect(
+        backend.set('test-key', 'value', { fencing: { lockKey: 'lock:test-key', fence: 1 } })
+      ).rejects.toThrow(CacheFencingError);
     });
   });
 
@@ -312,4 +597,460 @@ describe('RedisCacheBackend', () => {
       await expect(backendWithPrefix.clear()).rejects.toThrow('string error');
     });
   });
-}); 
\ No newline at end of file
+
+  describe('tag', () => {
+    it('should add keys to prefixed tag sets with a TTL', async () => {
+      mockRedisClient.eval.mockResolvedValue(1);
+
+      await backendWithPrefix.tag(['k1', 'k2'], ['t1', 't2'], 60);
+
+      expect(mockRedisClient.eval).toHaveBeenCalledWith(
+        expect.stringContaining('ZADD'),
+        2,
+        'test:tag:t1',
+        'test:tag:t2',
+        60,
+        'k1',
+        'k2'
+      );
+    });
+
+    describe('tag set expiry', () => {
+      let store: ReturnType<typeof createTagStore>;
+
+      beforeEach(() => {
+        store = createTagStore();
+        mockRedisClient.eval.mockImplementation(async (script: string, numKeys: number, ...args: Array<string | number>) =>
+          runScript(script, store, args.slice(0, numKeys) as string[], args.slice(numKeys)));
+      });
+
+      it('should prune expired members and only touch declared keys', async () => {
+        store.sets.set('tag:t1', { members: new Map([['old', 990], ['live', 1100]]), expiresAt: 1100 });
+
+        await backend.tag(['k1'], ['t1'], 60);
+
+        expect([...store.get('tag:t1')?.members.keys() ?? []]).toEqual(['live', 'k1']);
+        expect([...store.touched]).toEqual(['tag:t1']);
+      });
+
+      it('should expire a new tag set with the TTL', async () => {
+        await backend.tag(['k1'], ['t1'], 60);
+
+        expect(store.call('TTL', 'tag:t1')).toBe(60);
+      });
+
+      it('should keep a longer TTL the set already has', async () => {
+        store.sets.set('tag:t1', { members: new Map([['live', 1100]]), expiresAt: 1100 });
+
+        await backend.tag(['k1'], ['t1'], 60);
+
+        expect(store.call('TTL', 'tag:t1')).toBe(100);
+      });
+
+      it('should expire a set that pruning emptied and ZADD recreated', async () => {
+        // Every member has expired, but the set outlives them
+        store.sets.set('tag:t1', { members: new Map([['old', 990]]), expiresAt: 1100 });
+
+        await backend.tag(['k1'], ['t1'], 60);
+
+        expect(store.call('TTL', 'tag:t1')).toBe(60);
+        expect([...store.get('tag:t1')?.members.keys() ?? []]).toEqual(['k1']);
+      });
+
+      it('should make the set persistent without a TTL', async () => {
+        store.sets.set('tag:t1', { members: new Map([['live', 1100]]), expiresAt: 1100 });
+
+        await backend.tag(['k1'], ['t1']);
+
+        expect(store.call('TTL', 'tag:t1')).toBe(-1);
+      });
+    });
+
+    it('should make tag sets persistent when no TTL is given', async () => {
+      mockRedisClient.eval.mockResolvedValue(1);
+
+      await backend.tag(['k1'], ['t1']);
+
+      expect(mockRedisClient.eval).toHaveBeenCalledWith(expect.any(String), 1, 'tag:t1', 0, 'k1');
+    });
+
+    it('should skip the round trip when there is nothing to tag', async () => {
+      await backend.tag([], ['t1']);
+      await backend.tag(['k1'], []);
+
+      expect(mockRedisClient.eval).not.toHaveBeenCalled();
+    });
+
+    it('should throw CacheBackendError for Redis errors', async () => {
+      mockRedisClient.eval.mockRejectedValue(new Error('Redis connection failed'));
+
+      await expect(backend.tag(['k1'], ['t1'])).rejects.toThrow(CacheBackendError);
+      await expect(backend.tag(['k1'], ['t1'])).rejects.toThrow('Redis tag operation failed');
+    });
+  });
+
+  describe('invalidateTags', () => {
+    beforeEach(() => {
+      mockRedisClient.pipeline.mockReturnValue(mockPipeline);
+      mockPipeline.exec.mockResolvedValue([]);
+    });
+
+    it('should pop tag members in batches and delete them without duplicates', async () => {
+      mockRedisClient.zpopmin
+        .mockResolvedValueOnce(['k1', '100', 'k2', '200'])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce(['k1', '100'])
+        .mockResolvedValueOnce([]);
+
+      const deleted = await backendWithPrefix.invalidateTags(['t1', 't2']);
+
+      expect(mockRedisClient.zpopmin).toHaveBeenCalledWith('test:tag:t1', 500);
+      expect(mockRedisClient.zpopmin).toHaveBeenCalledWith('test:tag:t2', 500);
+      expect(mockPipeline.unlink.mock.calls).toEqual([['test:k1'], ['test:k2'], ['test:k1']]);
+      expect(mockRedisClient.eval).not.toHaveBeenCalled();
+      expect(deleted).toEqual(['k1', 'k2']);
+    });
+
+    it('should use unprefixed keys without a backend prefix', async () => {
+      mockRedisClient.zpopmin.mockResolvedValueOnce(['k1', '100']).mockResolvedValueOnce([]);
+
+      await backend.invalidateTags(['t1']);
+
+      expect(mockRedisClient.zpopmin).toHaveBeenCalledWith('tag:t1', 500);
+      expect(mockPipeline.unlink).toHaveBeenCalledWith('k1');
+    });
+
+    it('should return an empty list for no tags', async () => {
+      expect(await backend.invalidateTags([])).toEqual([]);
+      expect(mockRedisClient.zpopmin).not.toHaveBeenCalled();
+    });
+
+    it('should put back a batch it could not delete', async () => {
+      mockRedisClient.zpopmin.mockResolvedValueOnce(['k1', '100', 'k2', '+inf']);
+      mockPipeline.exec.mockResolvedValue([[null, 1], [new Error('READONLY'), null]]);
+      mockRedisClient.zadd.mockResolvedValue(2);
+
+      await expect(backend.invalidateTags(['t1'])).rejects.toThrow('READONLY');
+
+      expect(mockRedisClient.zadd).toHaveBeenCalledWith('tag:t1', '100', 'k1', '+inf', 'k2');
+    });
+
+    it('should throw CacheBackendError for Redis errors', async () => {
+      mockRedisClient.zpopmin.mockRejectedValue('string error');
+
+      await expect(backend.invalidateTags(['t1'])).rejects.toThrow(CacheBackendError);
+      await expect(backend.invalidateTags(['t1'])).rejects.toThrow('string error');
+    });
+  });
+
+  describe('publish', () => {
+    it('should publish to the prefixed channel', async () => {
+      mockRedisClient.publish.mockResolvedValue(1);
+
+      await backendWithPrefix.publish('lock:key', 'released');
+
+      expect(mockRedisClient.publish).toHaveBeenCalledWith('test:lock:key', 'released');
+    });
+
+    it('should throw CacheBackendError for Redis errors', async () => {
+      mockRedisClient.publish.mockRejectedValue(new Error('Redis connection failed'));
+
+      await expect(backend.publish('channel', 'msg')).rejects.toThrow(CacheBackendError);
+      await expect(backend.publish('channel', 'msg')).rejects.toThrow('Redis publish operation failed');
+    });
+  });
+
+  describe('subscribe', () => {
+    const emitMessage = (channel: string, message: string) => {
+      const onMessage = mockSubscriber.on.mock.calls.find(([event]) => event === 'message')?.[1];
+      onMessage?.(channel, message);
+    };
+    const emitEvent = (event: string) => {
+      const handler = mockSubscriber.on.mock.calls.find(([name]) => name === event)?.[1];
+      handler?.();
+    };
+
+    beforeEach(() => {
+      mockRedisClient.duplicate.mockReturnValue(mockSubscriber);
+      mockSubscriber.subscribe.mockResolvedValue(1);
+      mockSubscriber.unsubscribe.mockResolvedValue(0);
+    });
+
+    it('should subscribe once per channel on a duplicated connection', async () => {
+      const first = vi.fn();
+      const second = vi.fn();
+
+      await backendWithPrefix.subscribe('lock:key', first);
+      await backendWithPrefix.subscribe('lock:key', second);
+
+      expect(mockRedisClient.duplicate).toHaveBeenCalledTimes(1);
+      expect(mockSubscriber.subscribe).toHaveBeenCalledTimes(1);
+      expect(mockSubscriber.subscribe).toHaveBeenCalledWith('test:lock:key');
+
+      emitMessage('test:lock:key', 'released');
+      emitMessage('test:other', 'ignored');
+
+      expect(first).toHaveBeenCalledWith('released');
+      expect(second).toHaveBeenCalledWith('released');
+      expect(first).toHaveBeenCalledTimes(1);
+    });
+
+    it('should unsubscribe from Redis when the last listener of a channel leaves', async () => {
+      await backend.subscribe('other', vi.fn());
+      const unsubscribeFirst = await backend.subscribe('channel', vi.fn());
+      const unsubscribeSecond = await backend.subscribe('channel', vi.fn());
+
+      await unsubscribeFirst();
+      expect(mockSubscriber.unsubscribe).not.toHaveBeenCalled();
+
+      await unsubscribeSecond();
+      expect(mockSubscriber.unsubscribe).toHaveBeenCalledWith('channel');
+
+      // Unsubscribing twice is harmless
+      await unsubscribeSecond();
+      expect(mockSubscriber.unsubscribe).toHaveBeenCalledTimes(1);
+      expect(mockSubscriber.disconnect).not.toHaveBeenCalled();
+    });
+
+    it('should disconnect the subscriber connection once the last subscription is removed', async () => {
+      const unsubscribe = await backend.subscribe('channel', vi.fn());
+
+      await unsubscribe();
+
+      expect(mockSubscriber.disconnect).toHaveBeenCalledTimes(1);
+      expect(mockSubscriber.unsubscribe).not.toHaveBeenCalled();
+
+      // A later subscription opens a new connection
+      await backend.subscribe('channel', vi.fn());
+      expect(mockRedisClient.duplicate).toHaveBeenCalledTimes(2);
+    });
+
+    it('should disconnect the subscriber connection when the only SUBSCRIBE fails', async () => {
+      mockSubscriber.subscribe.mockRejectedValue(new Error('Redis connection failed'));
+
+      await expect(backend.subscribe('channel', vi.fn())).rejects.toThrow(CacheBackendError);
+
+      expect(mockSubscriber.disconnect).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw CacheBackendError when SUBSCRIBE fails', async () => {
+      mockSubscriber.subscribe.mockRejectedValue(new Error('Redis connection failed'));
+
+      await expect(backend.subscribe('channel', vi.fn())).rejects.toThrow('Redis subscribe operation failed');
+
+      // The failed listener is not kept, so the next subscribe retries SUBSCRIBE
+      mockSubscriber.subscribe.mockResolvedValue(1);
+      await backend.subscribe('channel', vi.fn());
+      expect(mockSubscriber.subscribe).toHaveBeenCalledTimes(2);
+    });
+
+    it('should throw CacheBackendError when UNSUBSCRIBE fails', async () => {
+      mockSubscriber.unsubscribe.mockRejectedValue('string error');
+      await backend.subscribe('other', vi.fn());
+      const unsubscribe = await backend.subscribe('channel', vi.fn());
+
+      await expect(unsubscribe()).rejects.toThrow('Redis unsubscribe operation failed');
+    });
+
+    it('should call onReconnect when the connection is ready again after closing', async () => {
+      const onReconnect = vi.fn();
+      const unsubscribe = await backend.subscribe('channel', vi.fn(), { onReconnect });
+
+      // The initial ready event is not a reconnect
+      emitEvent('ready');
+      expect(onReconnect).not.toHaveBeenCalled();
+
+      emitEvent('close');
+      emitEvent('ready');
+      expect(onReconnect).toHaveBeenCalledTimes(1);
+
+      await unsubscribe();
+      emitEvent('close');
+      emitEvent('ready');
+      expect(onReconnect).toHaveBeenCalledTimes(1);
+    });
+
+    it('should disconnect the subscriber connection on close', async () => {
+      await backend.subscribe('channel', vi.fn());
+
+      await backend.close();
+      await backend.close();
+
+      expect(mockSubscriber.disconnect).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('client tracking', () => {
+    const emit = (mock: { on: ReturnType<typeof vi.fn> }, event: string, ...args: unknown[]) => {
+      for (const [name, handler] of mock.on.mock.calls) {
+        if (name === event) handler(...args);
+      }
+    };
+    const invalidate = (keys: string[] | null) =>
+      emit(mockTracker, 'messageBuffer', Buffer.from('__redis__:invalidate'), keys && keys.map((key) => Buffer.from(key)));
+
+    let trackingBackend: RedisCacheBackend<unknown>;
+
+    beforeEach(() => {
+      mockRedisClient.duplicate.mockImplementation((options?: { autoResubscribe?: boolean }) =>
+        (options?.autoResubscribe === false ? mockTracker : mockTrackingClient));
+      mockTrackingClient.call.mockResolvedValue('OK');
+      mockTracker.call.mockResolvedValue(42);
+      mockTracker.subscribe.mockResolvedValue(1);
+      trackingBackend = new RedisCacheBackend(mockRedisClient as unknown as Redis, 'test', { clientTracking: true });
+    });
+
+    it('should only expose track when enabled', () => {
+      expect(backend.track).toBeUndefined();
+      expect(trackingBackend.track).toBeTypeOf('function');
+    });
+
+    it('should enable broadcast tracking on its own connection, redirected to another', async () => {
+      await trackingBackend.track?.({ onInvalidate: vi.fn() });
+
+      expect(mockRedisClient.duplicate).toHaveBeenCalledWith({ autoResubscribe: false });
+      expect(mockTracker.call).toHaveBeenCalledWith('CLIENT', 'ID');
+      expect(mockTracker.subscribe).toHaveBeenCalledWith('__redis__:invalidate');
+      expect(mockTrackingClient.call).toHaveBeenLastCalledWith(
+        'CLIENT', 'TRACKING', 'ON', 'REDIRECT', '42', 'BCAST', 'PREFIX', 'test:',
+      );
+      // The caller's client is left alone, so other backends can share it
+      expect(mockRedisClient.call).not.toHaveBeenCalled();
+
+      // Further listeners share the connections
+      await trackingBackend.track?.({ onInvalidate: vi.fn() });
+      expect(mockRedisClient.duplicate).toHaveBeenCalledTimes(2);
+      expect(mockTracker.call).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only track the prefixes listeners ask for', async () => {
+      const onStateChange = vi.fn();
+      await trackingBackend.track?.({ prefix: 'app:v1:', onInvalidate: vi.fn(), onStateChange });
+      expect(mockTrackingClient.call).toHaveBeenLastCalledWith(
+        'CLIENT', 'TRACKING', 'ON', 'REDIRECT', '42', 'BCAST', 'PREFIX', 'test:app:v1:',
+      );
+
+      // Tracking is switched over for a new prefix; the first listener is told it may have missed changes
+      await trackingBackend.track?.({ prefix: 'other:', onInvalidate: vi.fn() });
+      expect(onStateChange.mock.calls).toEqual([[true], [false], [true]]);
+      expect(mockTrackingClient.call).toHaveBeenLastCalledWith(
+        'CLIENT', 'TRACKING', 'ON', 'REDIRECT', '42', 'BCAST', 'PREFIX', 'test:app:v1:', 'PREFIX', 'test:other:',
+      );
+
+      // Redis rejects overlapping prefixes, so a covered one is not added
+      mockTrackingClient.call.mockClear();
+      await trackingBackend.track?.({ prefix: 'app:', onInvalidate: vi.fn() });
+      expect(mockTrackingClient.call).toHaveBeenLastCalledWith(
+        'CLIENT', 'TRACKING', 'ON', 'REDIRECT', '42', 'BCAST', 'PREFIX', 'test:app:', 'PREFIX', 'test:other:',
+      );
+      await trackingBackend.track?.({ prefix: 'app:v2:', onInvalidate: vi.fn() });
+      expect(mockTrackingClient.call).toHaveBeenCalledTimes(2);
+    });
+
+    it('should deliver invalidated keys without the prefix, and null after a flush', async () => {
+      const onInvalidate = vi.fn();
+      await trackingBackend.track?.({ onInvalidate });
+
+      invalidate(['test:a', 'test:b']);
+      invalidate(null);
+      emit(mockTracker, 'messageBuffer', Buffer.from('other'), [Buffer.from('test:c')]);
+
+      expect(onInvalidate.mock.calls).toEqual([[['a', 'b']], [null]]);
+    });
+
+    it('should only deliver keys under a listener\'s prefix', async () => {
+      const onInvalidate = vi.fn();
+      await trackingBackend.track?.({ prefix: 'app:', onInvalidate });
+      await trackingBackend.track?.({ prefix: 'other:', onInvalidate: vi.fn() });
+
+      invalidate(['test:app:a', 'test:other:b']);
+      invalidate(['test:other:c']);
+      invalidate(null);
+
+      expect(onInvalidate.mock.calls).toEqual([[['app:a']], [null]]);
+    });
+
+    it('should throw CacheBackendError and disconnect when the server does not support tracking', async () => {
+      mockTrackingClient.call.mockImplementation(async (...args: string[]) => {
+        if (args.includes('ON')) throw new Error("ERR unknown subcommand 'TRACKING'");
+        return 'OK';
+      });
+
+      await expect(trackingBackend.track?.({ onInvalidate: vi.fn() })).rejects.toThrow(CacheBackendError);
+      expect(mockTracker.disconnect).toHaveBeenCalledTimes(1);
+      expect(mockTrackingClient.disconnect).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report lost tracking and enable it again once the tracker reconnects', async () => {
+      const onStateChange = vi.fn();
+      await trackingBackend.track?.({ onInvalidate: vi.fn(), onStateChange });
+      expect(onStateChange).toHaveBeenLastCalledWith(true);
+
+      emit(mockTracker, 'close');
+      expect(onStateChange).toHaveBeenLastCalledWith(false);
+
+      mockTracker.call.mockResolvedValue(43);
+      emit(mockTracker, 'ready');
+
+      await vi.waitFor(() => expect(onStateChange).toHaveBeenLastCalledWith(true));
+      expect(mockTracker.subscribe).toHaveBeenCalledTimes(2);
+      expect(mockTrackingClient.call).toHaveBeenCalledWith(
+        'CLIENT', 'TRACKING', 'ON', 'REDIRECT', '43', 'BCAST', 'PREFIX', 'test:',
+      );
+    });
+
+    it('should enable tracking again once the tracking client reconnects', async () => {
+      const onStateChange = vi.fn();
+      await trackingBackend.track?.({ onInvalidate: vi.fn(), onStateChange });
+      mockTrackingClient.call.mockClear();
+
+      emit(mockTrackingClient, 'close');
+      expect(onStateChange).toHaveBeenLastCalledWith(false);
+      emit(mockTrackingClient, 'ready');
+
+      await vi.waitFor(() => expect(onStateChange).toHaveBeenLastCalledWith(true));
+      // The tracker kept its connection, so its ID is reused
+      expect(mockTracker.call).toHaveBeenCalledTimes(1);
+      expect(mockTrackingClient.call).toHaveBeenCalledWith('CLIENT', 'TRACKING', 'OFF');
+      expect(mockTrackingClient.call).toHaveBeenLastCalledWith(
+        'CLIENT', 'TRACKING', 'ON', 'REDIRECT', '42', 'BCAST', 'PREFIX', 'test:',
+      );
+    });
+
+    it('should disconnect its tracking connections when the last listener stops', async () => {
+      const stopFirst = await trackingBackend.track?.({ onInvalidate: vi.fn() });
+      const stopSecond = await trackingBackend.track?.({ onInvalidate: vi.fn() });
+
+      await stopFirst?.();
+      expect(mockTracker.disconnect).not.toHaveBeenCalled();
+
+      await stopSecond?.();
+      expect(mockTracker.disconnect).toHaveBeenCalledTimes(1);
+      expect(mockTrackingClient.disconnect).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not affect another backend tracking on the same client', async () => {
+      const otherBackend = new RedisCacheBackend(mockRedisClient as unknown as Redis, 'other', { clientTracking: true });
+      const stop = await trackingBackend.track?.({ onInvalidate: vi.fn() });
+      const onStateChange = vi.fn();
+      await otherBackend.track?.({ onInvalidate: vi.fn(), onStateChange });
+      mockTrackingClient.call.mockClear();
+
+      await stop?.();
+
+      expect(mockRedisClient.duplicate).toHaveBeenCalledTimes(4);
+      expect(mockTrackingClient.call).not.toHaveBeenCalled();
+      expect(onStateChange).toHaveBeenLastCalledWith(true);
+      await otherBackend.close();
+    });
+
+    it('should disconnect the tracking connections on close', async () => {
+      await trackingBackend.track?.({ onInvalidate: vi.fn() });
+
+      await trackingBackend.close();
+
+      expect(mockTracker.disconnect).toHaveBeenCalledTimes(1);
+      expect(mockTrackingClient.disconnect).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createResilientBackend } from '../../src/backends/resilient';
+import { MemoryCacheBackend } from '../../src/backends/memory';
+import { CacheBackend, CacheTimeoutError, CacheSerializationError, CacheLock } from '../../src/types';
+
+const never = () => new Promise<never>(() => {});
+
+describe('createResilientBackend', () => {
+  let inner: MemoryCacheBackend<unknown>;
+
+  beforeEach(() => {
+    inner = new MemoryCacheBackend<unknown>();
+  });
+
+  it('should pass calls through to the wrapped backend', async () => {
+    const backend = createResilientBackend(inner);
+    await backend.set('key', 'value', { ttl: 60 });
+    expect(await backend.get('key')).toBe('value');
+    await backend.del('key');
+    expect(await inner.get('key')).toBeUndefined();
+  });
+
+  it('should throw CacheTimeoutError with the operation and key', async () => {
+    vi.spyOn(inner, 'get').mockImplementation(never);
+    const backend = createResilientBackend(inner, { operationTimeout: 20, retry: false });
+
+    const error = await backend.get('slow-key').catch((e) => e) as CacheTimeoutError;
+
+    expect(error).toBeInstanceOf(CacheTimeoutError);
+    expect(error.operation).toBe('get');
+    expect(error.key).toBe('slow-key');
+    expect(error.message).toContain('get');
+    expect(error.message).toContain('slow-key');
+  });
+
+  it('should retry failed attempts up to the configured number', async () => {
+    const getSpy = vi.spyOn(inner, 'get')
+      .mockRejectedValueOnce(new Error('ECONNRESET'))
+      .mockRejectedValueOnce(new Error('ECONNRESET'))
+      .mockResolvedValueOnce('value');
+    const backend = createResilientBackend(inner, { retry: { attempts: 3, backoff: 1 } });
+
+    expect(await backend.get('key')).toBe('value');
+    expect(getSpy).toHaveBeenCalledTimes(3);
+  });
+
+  it('should retry timed out attempts', async () => {
+    const getSpy = vi.spyOn(inner, 'get').mockImplementationOnce(never).mockResolvedValueOnce('value');
+    const backend = createResilientBackend(inner, { operationTimeout: 20, retry: { attempts: 2, backoff: 1 } });
+
+    expect(await backend.get('key')).toBe('value');
+    expect(getSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up after the last attempt', async () => {
+    const getSpy = vi.spyOn(inner, 'get').mockRejectedValue(new Error('ECONNRESET'));
+    const backend = createResilientBackend(inner, { retry: { attempts: 2, backoff: 1 } });
+
+    await expect(backend.get('key')).rejects.toThrow('ECONNRESET');
+    expect(getSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry non-retryable errors', async () => {
+    const getSpy = vi.spyOn(inner, 'get').mockRejectedValue(new CacheSerializationError('bad json'));
+    const backend = createResilientBackend(inner, { retry: { attempts: 3, backoff: 1 } });
+
+    await expect(backend.get('key')).rejects.toThrow(CacheSerializationError);
+    expect(getSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should use a custom retryable classification', async () => {
+    const getSpy = vi.spyOn(inner, 'get').mockRejectedValue(new Error('WRONGTYPE'));
+    const backend = createResilientBackend(inner, {
+      retry: { attempts: 3, backoff: 1, retryable: (error) => !(error as Error).message.startsWith('WRONGTYPE') },
+    });
+
+    await expect(backend.get('key')).rejects.toThrow('WRONGTYPE');
+    expect(getSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should back off exponentially up to maxBackoff without jitter', async () => {
+    vi.spyOn(inner, 'get').mockRejectedValue(new Error('ECONNRESET'));
+    const backend = createResilientBackend(inner, {
+      retry: { attempts: 4, backoff: 20, maxBackoff: 30, jitter: false },
+    });
+
+    const start = Date.now();
+    await expect(backend.get('key')).rejects.toThrow('ECONNRESET');
+    // 20 + 30 + 30 ms between the four attempts
+    expect(Date.now() - start).toBeGreaterThanOrEqual(75);
+  });
+
+  it('should never retry lock, and release a lock acquired after the deadline', async () => {
+    let resolveLock: (lock: CacheLock | null) => void = () => {};
+    const lockSpy = vi.spyOn(inner, 'lock').mockImplementationOnce(
+      () => new Promise((resolve) => { resolveLock = resolve; }),
+    );
+    const unlockSpy = vi.spyOn(inner, 'unlock');
+    const backend = createResilientBackend(inner, { operationTimeout: 20, retry: { attempts: 3, backoff: 1 } });
+
+    await expect(backend.lock('lock:key', 5)).rejects.toThrow(CacheTimeoutError);
+    expect(lockSpy).toHaveBeenCalledTimes(1);
+
+    resolveLock({ token: 'late' });
+    await vi.waitFor(() => expect(unlockSpy).toHaveBeenCalledWith('lock:key', 'late'));
+  });
+
+  it('should never retry invalidateTags, whose first attempt may have deleted the keys', async () => {
+    const invalidateSpy = vi.spyOn(inner, 'invalidateTags').mockRejectedValue(new Error('connection reset'));
+    const backend = createResilientBackend(inner, { retry: { attempts: 3, backoff: 1 } });
+
+    await expect(backend.invalidateTags?.(['a'])).rejects.toThrow('connection reset');
+    expect(invalidateSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only expose optional methods the wrapped backend implements', () => {
+    const minimal: CacheBackend<unknown> = {
+      get: async () => undefined,
+      set: async () => {},
+      del: async () => {},
+      lock: async () => ({ token: 'token' }),
+      unlock: async () => {},
+    };
+
+    const wrappedMinimal = createResilientBackend(minimal);
+    expect(wrappedMinimal.tag).toBeUndefined();
+    expect(wrappedMinimal.subscribe).toBeUndefined();
+    expect(wrappedMinimal.track).toBeUndefined();
+    expect(wrappedMinimal.touch).toBeUndefined();
+
+    const wrappedMemory = createResilientBackend(inner);
+    expect(wrappedMemory.tag).toBeTypeOf('function');
+    expect(wrappedMemory.extendLock).toBeTypeOf('function');
+    expect(wrappedMemory.touch).toBeTypeOf('function');
+    expect(wrappedMemory.subscribe).toBeTypeOf('function');
+  });
+
+  it('should pass subscribe options through to the wrapped backend', async () => {
+    const subscribeSpy = vi.spyOn(inner, 'subscribe');
+    const backend = createResilientBackend(inner);
+    const listener = vi.fn();
+    const onReconnect = vi.fn();
+
+    const unsubscribe = await backend.subscribe?.('channel', listener, { onReconnect });
+
+    expect(subscribeSpy).toHaveBeenCalledWith('channel', listener, { onReconnect });
+    await unsubscribe?.();
+  });
+
+  it('should wrap optional methods with the same policy', async () => {
+    vi.spyOn(inner, 'invalidateTags').mockImplementation(never);
+    const backend = createResilientBackend(inner, { operationTimeout: 20, retry: false });
+
+    const error = await backend.invalidateTags?.(['a', 'b']).catch((e) => e) as CacheTimeoutError;
+
+    expect(error).toBeInstanceOf(CacheTimeoutError);
+    expect(error.operation).toBe('invalidateTags');
+  });
+
+  it('should wrap mget and mset', async () => {
+    const backend = createResilientBackend(inner);
+    await backend.mset?.([{ key: 'a', value: 1 }, { key: 'b', value: 2 }]);
+    expect(await backend.mget?.(['a', 'b', 'c'])).toEqual([1, 2, undefined]);
+
+    vi.spyOn(inner, 'mget').mockImplementation(never);
+    const slow = createResilientBackend(inner, { operationTimeout: 20, retry: false });
+    const error = await slow.mget?.(['a', 'b']).catch((e) => e) as CacheTimeoutError;
+    expect(error.operation).toBe('mget');
+    expect(error.key).toBe('a,b');
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createCircuitBreaker } from '../../src/cache/circuitBreaker';
+import type { CircuitState } from '../../src/types';
+
+describe('createCircuitBreaker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should start closed and allow requests', () => {
+    const breaker = createCircuitBreaker({}, () => {});
+    expect(breaker.state).toBe('closed');
+    expect(breaker.allowRequest('a')).toBe(true);
+  });
+
+  it('should open after failureThreshold consecutive failures', () => {
+    const transitions: Array<[CircuitState, string]> = [];
+    const breaker = createCircuitBreaker({ failureThreshold: 3 }, (state, key) => transitions.push([state, key]));
+
+    breaker.recordFailure('a');
+    breaker.recordFailure('b');
+    expect(breaker.state).toBe('closed');
+    breaker.recordFailure('c');
+
+    expect(breaker.state).toBe('open');
+    expect(breaker.allowRequest('d')).toBe(false);
+    expect(transitions).toEqual([['open', 'c']]);
+  });
+
+  it('should reset the failure count on success', () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 2 }, () => {});
+    breaker.recordFailure('a');
+    breaker.recordSuccess('a');
+    breaker.recordFailure('a');
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should probe the backend once resetTimeout has passed', () => {
+    vi.useFakeTimers();
+    const transitions: CircuitState[] = [];
+    const breaker = createCircuitBreaker(
+      { failureThreshold: 1, resetTimeout: 1000 },
+      (state) => transitions.push(state),
+    );
+    breaker.recordFailure('a');
+
+    vi.advanceTimersByTime(999);
+    expect(breaker.allowRequest('a')).toBe(false);
+
+    vi.advanceTimersByTime(1);
+    expect(breaker.allowRequest('a')).toBe(true);
+    expect(breaker.state).toBe('half-open');
+    // Only one probe at a time by default
+    expect(breaker.allowRequest('b')).toBe(false);
+
+    breaker.recordSuccess('a');
+    expect(breaker.state).toBe('closed');
+    expect(transitions).toEqual(['open', 'half-open', 'closed']);
+  });
+
+  it('should reopen when a probe fails', () => {
+    vi.useFakeTimers();
+    const breaker = createCircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 }, () => {});
+    breaker.recordFailure('a');
+    vi.advanceTimersByTime(1000);
+    breaker.allowRequest('a');
+
+    breaker.recordFailure('a');
+
+    expect(breaker.state).toBe('open');
+    expect(breaker.allowRequest('a')).toBe(false);
+  });
+
+  it('should allow halfOpenMaxProbes concurrent probes', () => {
+    vi.useFakeTimers();
+    const breaker = createCircuitBreaker({ failureThreshold: 1, resetTimeout: 10, halfOpenMaxProbes: 2 }, () => {});
+    breaker.recordFailure('a');
+    vi.advanceTimersByTime(10);
+
+    expect(breaker.allowRequest('a')).toBe(true);
+    expect(breaker.allowRequest('b')).toBe(true);
+    expect(breaker.allowRequest('c')).toBe(false);
+  });
+});
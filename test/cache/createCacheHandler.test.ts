@@ -1,6 +1,25 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { createCacheHandler } from '../../src/cache/createCacheHandler';
-import { CacheBackend, CacheHandler, CacheTimeoutError, CacheLogEvent } from '../../src/types';
+import { MemoryCacheBackend } from '../../src/backends/memory';
+import { RedisCacheBackend } from '../../src/backends/redis';
+import { isEnvelope } from '../../src/cache/envelope';
+import {
+  CacheBackend,
+  CacheBackendError,
+  CacheHandler,
+  CacheHandlerOptions,
+  CacheTimeoutError,
+  CacheLogEvent,
+  CacheConfigError,
+  CacheSerializationError,
+  CacheLockError,
+  CacheFencingError,
+  CacheFetchTimeoutError,
+  CacheLock,
+  CacheValidationError,
+  CacheTrackingListener,
+} from '../../src/types';
+import type Redis from 'ioredis';
 
 // Simple in-memory backend for testing
 class MemoryBackend<T> implements CacheBackend<T> {
@@ -16,10 +35,10 @@ class MemoryBackend<T> implements CacheBackend<T> {
     this.store.delete(key);
   }
   async lock(key: string, ttl: number) {
-    if (this.locks.has(key)) return false;
+    if (this.locks.has(key)) return null;
     this.locks.add(key);
     setTimeout(() => this.locks.delete(key), ttl * 1000);
-    return true;
+    return { token: key };
   }
   async unlock(key: string) {
     this.locks.delete(key);
@@ -70,7 +89,7 @@ describe('createCacheHandler', () => {
   it('should fetch, set, and return value on miss, and log MISS and LOCK', async () => {
     const result = await handler.fetch('bar', async () => 123);
     expect(result).toBe(123);
-    expect(await backend.get('test:v1:bar')).toBe(123);
+    expect(await backend.get('test:v1:bar')).toMatchObject({ value: 123 });
     expect(logEvents.some(e => e.type === 'MISS')).toBe(true);
     expect(logEvents.some(e => e.type === 'LOCK')).toBe(true);
   });
@@ -124,8 +143,8 @@ describe('createCacheHandler', () => {
       });
       
       expect(result).toBe('fresh-value');
-      expect(await backend.get('test:v1:stale-test')).toBe('fresh-value');
-      expect(await backend.get('stale:test:v1:stale-test')).toBe('fresh-value');
+      expect(await backend.get('test:v1:stale-test')).toMatchObject({ value: 'fresh-value' });
+      expect(await backend.get('stale:test:v1:stale-test')).toMatchObject({ value: 'fresh-value' });
     });
     
     it('should fall back to stale value when fetcher fails', async () => {
@@ -197,10 +216,10 @@ describe('createCacheHandler', () => {
         if (this.shouldThrowOnLock) {
           throw new Error('Backend lock error');
         }
-        if (this.locks.has(key)) return false;
+        if (this.locks.has(key)) return null;
         this.locks.add(key);
         setTimeout(() => this.locks.delete(key), ttl * 1000);
-        return true;
+        return { token: key };
       }
       async unlock(key: string) {
         if (this.shouldThrowOnUnlock) {
@@ -304,10 +323,10 @@ describe('createCacheHandler', () => {
         this.store.delete(key);
       }
       async lock(key: string, ttl: number) {
-        if (this.locks.has(key)) return false;
+        if (this.locks.has(key)) return null;
         this.locks.add(key);
         setTimeout(() => this.locks.delete(key), ttl * 1000);
-        return true;
+        return { token: key };
       }
       async unlock(key: string) {
         this.locks.delete(key);
@@ -413,7 +432,7 @@ describe('createCacheHandler', () => {
       const result = await handler.fetch('default-options', async () => 'value');
       expect(result).toBe('value');
       // Should use default TTL of 300 seconds
-      expect(await backend.get('test:v1:default-options')).toBe('value');
+      expect(await backend.get('test:v1:default-options')).toMatchObject({ value: 'value' });
     });
 
     it('should override default options with provided options', async () => {
@@ -425,4 +444,1968 @@ describe('createCacheHandler', () => {
       expect(result).toBe('value');
     });
   });
-}); 
\ No newline at end of file
+
+  describe('tags', () => {
+    let tagBackend: MemoryCacheBackend<unknown>;
+    let tagHandler: CacheHandler<unknown>;
+
+    beforeEach(() => {
+      tagBackend = new MemoryCacheBackend<unknown>();
+      logEvents = [];
+      tagHandler = createCacheHandler({
+        backend: tagBackend,
+        prefix: 'test',
+        version: 'v1',
+        fallbackToStale: true,
+        logger: { log: (event) => logEvents.push(event) },
+      });
+    });
+
+    it('should invalidate every key fetched with a tag', async () => {
+      await tagHandler.fetch('product:42', async () => 'product', { tags: ['product:42'] });
+      await tagHandler.fetch('reviews:42', async () => 'reviews', { tags: ['product:42', 'reviews'] });
+      await tagHandler.fetch('other', async () => 'other', { tags: ['reviews'] });
+
+      await tagHandler.invalidateTag('product:42');
+
+      expect(await tagBackend.get('test:v1:product:42')).toBeUndefined();
+      expect(await tagBackend.get('test:v1:reviews:42')).toBeUndefined();
+      expect(await tagBackend.get('test:v1:other')).toMatchObject({ value: 'other' });
+      expect(logEvents).toContainEqual({ type: 'INVALIDATE', key: 'test:v1:product:42' });
+    });
+
+    it('should remove the stale copy together with the value', async () => {
+      await tagHandler.fetch('item', async () => 'value', { ttl: 10, staleTtl: 60, tags: ['items'] });
+      expect(await tagBackend.get('stale:test:v1:item')).toMatchObject({ value: 'value' });
+
+      await tagHandler.invalidateTags(['items']);
+
+      expect(await tagBackend.get('stale:test:v1:item')).toBeUndefined();
+    });
+
+    it('should evict invalidated keys from L1 so the next fetch refetches', async () => {
+      await tagHandler.fetch('item', async () => 'old', { tags: ['items'] });
+      await tagHandler.invalidateTag('items');
+
+      const result = await tagHandler.fetch('item', async () => 'new', { tags: ['items'] });
+      expect(result).toBe('new');
+    });
+
+    it('should apply invalidations made by another handler sharing the backend', async () => {
+      const otherPod = createCacheHandler({ backend: tagBackend, prefix: 'test', version: 'v1' });
+      await tagHandler.fetch('item', async () => 'value', { tags: ['items'] });
+
+      await otherPod.invalidateTag('items');
+
+      expect(await tagBackend.get('test:v1:item')).toBeUndefined();
+    });
+
+    it('should namespace tags by prefix and version', async () => {
+      const otherApp = createCacheHandler({ backend: tagBackend, prefix: 'other' });
+      await tagHandler.fetch('item', async () => 'value', { tags: ['items'] });
+
+      await otherApp.invalidateTag('items');
+
+      expect(await tagBackend.get('test:v1:item')).toMatchObject({ value: 'value' });
+    });
+
+    it('should throw CacheConfigError when the backend does not support tags', async () => {
+      const plainHandler = createCacheHandler({ backend });
+      await expect(plainHandler.fetch('key', async () => 1, { tags: ['a'] }))
+        .rejects.toThrow(CacheConfigError);
+      await expect(plainHandler.invalidateTag('a')).rejects.toThrow(CacheConfigError);
+    });
+
+    it('should log tagging errors but still return the value', async () => {
+      tagBackend.tag = async () => {
+        throw new Error('tag failed');
+      };
+      const result = await tagHandler.fetch('item', async () => 'value', { tags: ['items'] });
+      expect(result).toBe('value');
+      expect(logEvents.some(e => e.type === 'ERROR' && e.key === 'test:v1:item')).toBe(true);
+    });
+
+    it('should wrap backend invalidation errors in CacheBackendError', async () => {
+      tagBackend.invalidateTags = async () => {
+        throw new Error('boom');
+      };
+      await expect(tagHandler.invalidateTag('items')).rejects.toThrow('Failed to invalidate tags: boom');
+    });
+  });
+
+  describe('stale-while-revalidate', () => {
+    let swrBackend: MemoryBackend<string>;
+    let swrHandler: CacheHandler<string>;
+
+    const createSwrHandler = () => createCacheHandler({
+      backend: swrBackend,
+      prefix: 'test',
+      version: 'v1',
+      staleWhileRevalidate: true,
+      logger: { log: (event) => logEvents.push(event) },
+    });
+
+    beforeEach(async () => {
+      swrBackend = new MemoryBackend<string>();
+      logEvents = [];
+      swrHandler = createSwrHandler();
+
+      // Populate, then simulate the main key expiring while the stale copy lives on
+      await swrHandler.fetch('item', async () => 'old', { ttl: 10, staleTtl: 60 });
+      await swrBackend.del('test:v1:item');
+      swrHandler = createSwrHandler();
+      logEvents = [];
+    });
+
+    it('should return the stale value immediately and log STALE', async () => {
+      let resolveFetcher: (value: string) => void = () => {};
+      const fetcher = vi.fn(() => new Promise<string>((resolve) => { resolveFetcher = resolve; }));
+
+      const result = await swrHandler.fetch('item', fetcher, { ttl: 10, staleTtl: 60 });
+
+      expect(result).toBe('old');
+      expect(logEvents).toContainEqual({ type: 'STALE', key: 'test:v1:item' });
+      expect(logEvents.some(e => e.type === 'MISS')).toBe(false);
+
+      await vi.waitFor(() => expect(fetcher).toHaveBeenCalled());
+      resolveFetcher('new');
+      await vi.waitFor(async () => expect(await swrBackend.get('test:v1:item')).toMatchObject({ value: 'new' }));
+      expect(await swrBackend.get('stale:test:v1:item')).toMatchObject({ value: 'new' });
+      expect(swrBackend.locks.size).toBe(0);
+    });
+
+    it('should refresh only once for concurrent stale reads', async () => {
+      const fetcher = vi.fn(async () => 'new');
+
+      await Promise.all([
+        swrHandler.fetch('item', fetcher, { ttl: 10, staleTtl: 60 }),
+        swrHandler.fetch('item', fetcher, { ttl: 10, staleTtl: 60 }),
+        swrHandler.fetch('item', fetcher, { ttl: 10, staleTtl: 60 }),
+      ]);
+
+      await vi.waitFor(async () => expect(await swrBackend.get('test:v1:item')).toMatchObject({ value: 'new' }));
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip the background refresh when another pod holds the lock', async () => {
+      swrBackend.locks.add('lock:test:v1:item');
+      const fetcher = vi.fn(async () => 'new');
+
+      const result = await swrHandler.fetch('item', fetcher, { ttl: 10, staleTtl: 60 });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(result).toBe('old');
+      expect(fetcher).not.toHaveBeenCalled();
+    });
+
+    it('should log background refresh errors and keep the stale copy', async () => {
+      const result = await swrHandler.fetch('item', async () => { throw new Error('upstream down'); }, {
+        ttl: 10,
+        staleTtl: 60,
+      });
+
+      expect(result).toBe('old');
+      await vi.waitFor(() => expect(logEvents.some(e => e.type === 'ERROR')).toBe(true));
+      expect(await swrBackend.get('stale:test:v1:item')).toMatchObject({ value: 'old' });
+      expect(swrBackend.locks.size).toBe(0);
+    });
+
+    it('should block on the fetcher when disabled per call', async () => {
+      const result = await swrHandler.fetch('item', async () => 'new', {
+        ttl: 10,
+        staleTtl: 60,
+        staleWhileRevalidate: false,
+      });
+
+      expect(result).toBe('new');
+      expect(logEvents.some(e => e.type === 'STALE')).toBe(false);
+    });
+
+    it('should fetch normally when there is no stale copy', async () => {
+      const result = await swrHandler.fetch('missing', async () => 'fresh', { ttl: 10, staleTtl: 60 });
+      expect(result).toBe('fresh');
+      expect(logEvents.some(e => e.type === 'MISS')).toBe(true);
+    });
+  });
+
+  describe('early recomputation (XFetch)', () => {
+    let xBackend: MemoryBackend<unknown>;
+
+    const createXHandler = (earlyRecompute: boolean | { beta?: number } = true) => createCacheHandler({
+      backend: xBackend,
+      prefix: 'test',
+      version: 'v1',
+      earlyRecompute,
+      logger: { log: (event) => logEvents.push(event) },
+    });
+
+    const seed = (expiresInMs: number, fetchDurationMs: number) => xBackend.set('test:v1:item', {
+      __cachex: 1,
+      value: 'old',
+      expiresAt: Date.now() + expiresInMs,
+      fetchDurationMs,
+    });
+
+    beforeEach(() => {
+      xBackend = new MemoryBackend<unknown>();
+      logEvents = [];
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should store expiry and fetcher duration alongside the value', async () => {
+      const handler = createXHandler();
+      const before = Date.now();
+      const result = await handler.fetch('item', async () => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        return 'value';
+      }, { ttl: 60 });
+
+      expect(result).toBe('value');
+      const stored = await xBackend.get('test:v1:item');
+      expect(isEnvelope(stored)).toBe(true);
+      expect(stored).toMatchObject({ value: 'value' });
+      const { expiresAt, fetchDurationMs } = stored as { expiresAt: number; fetchDurationMs: number };
+      expect(expiresAt).toBeGreaterThanOrEqual(before + 60_000);
+      expect(fetchDurationMs).toBeGreaterThanOrEqual(15);
+    });
+
+    it('should read stored envelopes back as plain values', async () => {
+      await createXHandler().fetch('item', async () => 'value', { ttl: 60 });
+      const result = await createXHandler(false).fetch('item', async () => 'other');
+      expect(result).toBe('value');
+    });
+
+    it('should recompute in the background when the roll says so', async () => {
+      await seed(1000, 100);
+      // A roll near zero makes -ln(rand) huge, triggering recomputation
+      vi.spyOn(Math, 'random').mockReturnValue(1e-300);
+
+      const handler = createXHandler();
+      const result = await handler.fetch('item', async () => 'new', { ttl: 60 });
+
+      expect(result).toBe('old');
+      expect(logEvents).toContainEqual({ type: 'EARLY_RECOMPUTE', key: 'test:v1:item' });
+      await vi.waitFor(async () => {
+        expect(await xBackend.get('test:v1:item')).toMatchObject({ value: 'new' });
+      });
+    });
+
+    it('should not recompute while expiry is far away', async () => {
+      await seed(60_000, 100);
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+      const fetcher = vi.fn(async () => 'new');
+
+      const result = await createXHandler({ beta: 2 }).fetch('item', fetcher, { ttl: 60 });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(result).toBe('old');
+      expect(fetcher).not.toHaveBeenCalled();
+      expect(logEvents.some(e => e.type === 'EARLY_RECOMPUTE')).toBe(false);
+    });
+
+    it('should always recompute once past expiry', async () => {
+      await seed(-1, 0);
+      vi.spyOn(Math, 'random').mockReturnValue(0.999);
+
+      await createXHandler().fetch('item', async () => 'new', { ttl: 60 });
+
+      expect(logEvents).toContainEqual({ type: 'EARLY_RECOMPUTE', key: 'test:v1:item' });
+    });
+
+    it('should respect the per-call setting over the handler setting', async () => {
+      await seed(1000, 100);
+      vi.spyOn(Math, 'random').mockReturnValue(1e-300);
+
+      await createXHandler().fetch('item', async () => 'new', { ttl: 60, earlyRecompute: false });
+      expect(logEvents.some(e => e.type === 'EARLY_RECOMPUTE')).toBe(false);
+
+      await createXHandler(false).fetch('item', async () => 'new', { ttl: 60, earlyRecompute: { beta: 1 } });
+      expect(logEvents.some(e => e.type === 'EARLY_RECOMPUTE')).toBe(true);
+    });
+
+    it('should store no expiry for values that never expire', async () => {
+      await createXHandler().fetch('item', async () => 'value', { ttl: 0 });
+
+      const stored = await xBackend.get('test:v1:item');
+      expect(stored).toMatchObject({ value: 'value', createdAt: expect.any(Number) });
+      expect(stored).not.toHaveProperty('expiresAt', expect.anything());
+      expect((await createXHandler().inspect('item'))?.metadata?.expiresAt).toBeUndefined();
+    });
+
+    it('should never recompute values that never expire', async () => {
+      await createXHandler().fetch('item', async () => 'value', { ttl: 0 });
+      vi.spyOn(Math, 'random').mockReturnValue(1e-300);
+      const fetcher = vi.fn(async () => 'new');
+
+      const result = await createXHandler().fetch('item', fetcher, { ttl: 0, skipL1: true });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(result).toBe('value');
+      expect(fetcher).not.toHaveBeenCalled();
+      expect(logEvents.some(e => e.type === 'EARLY_RECOMPUTE')).toBe(false);
+    });
+
+    it('should still store metadata when disabled', async () => {
+      await createXHandler(false).fetch('item', async () => 'value', { ttl: 60 });
+      expect(await xBackend.get('test:v1:item')).toMatchObject({ value: 'value', fetchDurationMs: expect.any(Number) });
+    });
+  });
+
+  describe('L1 cache', () => {
+    it('should serve repeated reads from L1 without hitting the backend', async () => {
+      await backend.set('test:v1:hot', 1);
+      await handler.fetch('hot', async () => 2);
+      backend.store.set('test:v1:hot', 3);
+
+      expect(await handler.fetch('hot', async () => 2)).toBe(1);
+    });
+
+    it('should bypass L1 with skipL1', async () => {
+      await backend.set('test:v1:hot', 1);
+      await handler.fetch('hot', async () => 2);
+      backend.store.set('test:v1:hot', 3);
+
+      expect(await handler.fetch('hot', async () => 2, { skipL1: true })).toBe(3);
+    });
+
+    it('should not populate L1 with skipL1', async () => {
+      await handler.fetch('cold', async () => 1, { skipL1: true });
+      backend.store.set('test:v1:cold', 2);
+
+      expect(await handler.fetch('cold', async () => 3)).toBe(2);
+    });
+
+    it('should read through to the backend when L1 is disabled', async () => {
+      const noL1Handler = createCacheHandler({ backend, prefix: 'test', version: 'v1', l1: { enabled: false } });
+      await noL1Handler.fetch('key', async () => 1);
+      backend.store.set('test:v1:key', 2);
+
+      expect(await noL1Handler.fetch('key', async () => 3)).toBe(2);
+    });
+
+    it('should stop timers and drop L1 entries on dispose', async () => {
+      vi.useFakeTimers();
+      try {
+        const timedHandler = createCacheHandler({ backend, prefix: 'test', version: 'v1' });
+        expect(vi.getTimerCount()).toBe(1);
+
+        timedHandler.dispose();
+
+        expect(vi.getTimerCount()).toBe(0);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('request coalescing', () => {
+    it('should share one load between concurrent callers of the same key', async () => {
+      const lockSpy = vi.spyOn(backend, 'lock');
+      const getSpy = vi.spyOn(backend, 'get');
+      const fetcher = vi.fn(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        return 7;
+      });
+
+      const results = await Promise.all(Array.from({ length: 50 }, () => handler.fetch('shared', fetcher)));
+
+      expect(results).toEqual(Array(50).fill(7));
+      expect(fetcher).toHaveBeenCalledTimes(1);
+      expect(lockSpy).toHaveBeenCalledTimes(1);
+      expect(getSpy).toHaveBeenCalledTimes(1);
+      expect(logEvents).toContainEqual({ type: 'COALESCED', key: 'test:v1:shared', callers: 50 });
+    });
+
+    it('should not log COALESCED for a single caller', async () => {
+      await handler.fetch('single', async () => 1);
+      expect(logEvents.some(e => e.type === 'COALESCED')).toBe(false);
+    });
+
+    it('should share fetcher errors with every coalesced caller', async () => {
+      const fetcher = vi.fn(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        throw new Error('shared failure');
+      });
+
+      const results = await Promise.allSettled([
+        handler.fetch('failing', fetcher),
+        handler.fetch('failing', fetcher),
+      ]);
+
+      expect(results.every(r => r.status === 'rejected')).toBe(true);
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('should start a new load once the previous one settles', async () => {
+      const fetcher = vi.fn(async () => 1);
+      await handler.fetch('sequential', fetcher, { skipL1: true });
+      await backend.del('test:v1:sequential');
+      await handler.fetch('sequential', fetcher, { skipL1: true });
+
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not coalesce different keys', async () => {
+      const fetcher = vi.fn(async () => 1);
+      await Promise.all([handler.fetch('a', fetcher), handler.fetch('b', fetcher)]);
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('waiter notifications', () => {
+    let pubsubBackend: MemoryCacheBackend<unknown>;
+    let pubsubHandler: CacheHandler<unknown>;
+
+    beforeEach(() => {
+      pubsubBackend = new MemoryCacheBackend<unknown>();
+      logEvents = [];
+      pubsubHandler = createCacheHandler({
+        backend: pubsubBackend,
+        prefix: 'test',
+        version: 'v1',
+        logger: { log: (event) => logEvents.push(event) },
+      });
+    });
+
+    it('should announce completion on the lock channel', async () => {
+      const publishSpy = vi.spyOn(pubsubBackend, 'publish');
+      await pubsubHandler.fetch('key', async () => 'value');
+      expect(publishSpy).toHaveBeenCalledWith('lock:test:v1:key', 'released');
+    });
+
+    it('should announce failure on the lock channel', async () => {
+      const publishSpy = vi.spyOn(pubsubBackend, 'publish');
+      await expect(pubsubHandler.fetch('key', async () => { throw new Error('fail'); })).rejects.toThrow('fail');
+      expect(publishSpy).toHaveBeenCalledWith('lock:test:v1:key', 'failed');
+    });
+
+    it('should wake waiters as soon as the holder announces completion', async () => {
+      await pubsubBackend.lock('lock:test:v1:key', 5);
+      setTimeout(async () => {
+        await pubsubBackend.set('test:v1:key', 'from-other-pod');
+        await pubsubBackend.publish('lock:test:v1:key', 'released');
+      }, 260);
+
+      const start = Date.now();
+      const result = await pubsubHandler.fetch('key', async () => 'unused', { lockTimeout: 2000 });
+
+      expect(result).toBe('from-other-pod');
+      // Without the notification the next poll would only happen at ~406ms
+      expect(Date.now() - start).toBeLessThan(380);
+    });
+
+    it('should fail fast when the holder announces failure', async () => {
+      await pubsubBackend.lock('lock:test:v1:key', 5);
+      setTimeout(() => pubsubBackend.publish('lock:test:v1:key', 'failed'), 100);
+
+      const start = Date.now();
+      await expect(pubsubHandler.fetch('key', async () => 'unused', { lockTimeout: 2000 }))
+        .rejects.toThrow(CacheLockError);
+      expect(Date.now() - start).toBeLessThan(1000);
+    });
+
+    it('should announce abandonment when the caller aborts', async () => {
+      const publishSpy = vi.spyOn(pubsubBackend, 'publish');
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(new Error('client went away')), 50);
+
+      await expect(pubsubHandler.fetch('key', (signal) => new Promise<string>((_resolve, reject) => {
+        signal.addEventListener('abort', () => reject(signal.reason));
+      }), { signal: controller.signal })).rejects.toThrow('client went away');
+      expect(publishSpy).toHaveBeenCalledWith('lock:test:v1:key', 'abandoned');
+    });
+
+    it('should take over the lock when the holder announces abandonment', async () => {
+      const lock = await pubsubBackend.lock('lock:test:v1:key', 5);
+      setTimeout(async () => {
+        await pubsubBackend.unlock('lock:test:v1:key', lock?.token ?? '');
+        await pubsubBackend.publish('lock:test:v1:key', 'abandoned');
+      }, 100);
+
+      const start = Date.now();
+      const result = await pubsubHandler.fetch('key', async () => 'own-value', { lockTimeout: 2000 });
+
+      expect(result).toBe('own-value');
+      expect(await pubsubBackend.get('test:v1:key')).toBeDefined();
+      expect(Date.now() - start).toBeLessThan(1000);
+    });
+
+    it('should unsubscribe once done waiting', async () => {
+      const unsubscribe = vi.fn(async () => {});
+      vi.spyOn(pubsubBackend, 'subscribe').mockResolvedValue(unsubscribe);
+      // Without lease renewal, waiters give up at lockTimeout
+      Object.assign(pubsubBackend, { extendLock: undefined });
+      await pubsubBackend.lock('lock:test:v1:key', 5);
+
+      await expect(pubsubHandler.fetch('key', async () => 'unused', { lockTimeout: 100 }))
+        .rejects.toThrow(CacheTimeoutError);
+      expect(unsubscribe).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to polling when subscribing fails', async () => {
+      vi.spyOn(pubsubBackend, 'subscribe').mockRejectedValue(new Error('subscribe failed'));
+      await pubsubBackend.lock('lock:test:v1:key', 5);
+      setTimeout(() => pubsubBackend.set('test:v1:key', 'polled'), 60);
+
+      const result = await pubsubHandler.fetch('key', async () => 'unused', { lockTimeout: 1000 });
+
+      expect(result).toBe('polled');
+      expect(logEvents.some(e => e.type === 'ERROR' && e.key === 'lock:test:v1:key')).toBe(true);
+    });
+
+    it('should log publish errors without failing the fetch', async () => {
+      vi.spyOn(pubsubBackend, 'publish').mockRejectedValue(new Error('publish failed'));
+      expect(await pubsubHandler.fetch('key', async () => 'value')).toBe('value');
+      expect(logEvents.some(e => e.type === 'ERROR' && e.key === 'lock:test:v1:key')).toBe(true);
+    });
+  });
+
+  describe('owner-safe locks', () => {
+    let lockBackend: MemoryCacheBackend<unknown>;
+    let lockHandler: CacheHandler<unknown>;
+
+    beforeEach(() => {
+      lockBackend = new MemoryCacheBackend<unknown>();
+      logEvents = [];
+      lockHandler = createCacheHandler({
+        backend: lockBackend,
+        prefix: 'test',
+        version: 'v1',
+        logger: { log: (event) => logEvents.push(event) },
+      });
+    });
+
+    it('should release the lock with the token it acquired', async () => {
+      const unlockSpy = vi.spyOn(lockBackend, 'unlock');
+      const lockSpy = vi.spyOn(lockBackend, 'lock');
+
+      await lockHandler.fetch('key', async () => 'value');
+
+      const lock = await lockSpy.mock.results[0].value;
+      expect(unlockSpy).toHaveBeenCalledWith('lock:test:v1:key', lock.token);
+    });
+
+    it('should not release a lock taken over after its own expired', async () => {
+      // Simulate a holder that cannot renew its lease
+      Object.assign(lockBackend, { extendLock: undefined });
+      let takeover: CacheLock | null = null;
+      await lockHandler.fetch('key', async () => {
+        // The holder's lock expires mid-fetch and another pod acquires it
+        await new Promise(resolve => setTimeout(resolve, 1100));
+        takeover = await lockBackend.lock('lock:test:v1:key', 5);
+        return 'slow';
+      }, { lockTimeout: 1000 });
+
+      expect(takeover).not.toBeNull();
+      expect(await lockBackend.lock('lock:test:v1:key', 5)).toBeNull();
+    });
+
+    it('should reject a late write from a holder whose lock was taken over', async () => {
+      Object.assign(lockBackend, { extendLock: undefined });
+      const result = await lockHandler.fetch('key', async () => {
+        await new Promise(resolve => setTimeout(resolve, 1100));
+        // A newer holder acquires the lock and writes a fresher value
+        const newer = await lockBackend.lock('lock:test:v1:key', 5) as CacheLock;
+        await lockBackend.set('test:v1:key', 'fresh', {
+          fencing: { lockKey: 'lock:test:v1:key', fence: newer.fence as number },
+        });
+        return 'late';
+      }, { lockTimeout: 1000 });
+
+      // The late caller still gets its own result, but the backend keeps the fresher value
+      expect(result).toBe('late');
+      expect(await lockBackend.get('test:v1:key')).toBe('fresh');
+      expect(logEvents.some(e => e.type === 'ERROR' && e.error instanceof CacheFencingError)).toBe(true);
+      expect(await lockHandler.fetch('key', async () => 'unused', { skipL1: true })).toBe('fresh');
+    });
+  });
+
+  describe('lock lease renewal', () => {
+    let leaseBackend: MemoryCacheBackend<unknown>;
+    let leaseHandler: CacheHandler<unknown>;
+
+    beforeEach(() => {
+      leaseBackend = new MemoryCacheBackend<unknown>();
+      logEvents = [];
+      leaseHandler = createCacheHandler({
+        backend: leaseBackend,
+        prefix: 'test',
+        version: 'v1',
+        logger: { log: (event) => logEvents.push(event) },
+      });
+    });
+
+    it('should renew the lock while a long fetcher runs', async () => {
+      const extendSpy = vi.spyOn(leaseBackend, 'extendLock');
+      let heldAfterLease: CacheLock | null = null;
+
+      await leaseHandler.fetch('report', async () => {
+        await new Promise(resolve => setTimeout(resolve, 1500));
+        heldAfterLease = await leaseBackend.lock('lock:test:v1:report', 5);
+        return 'report';
+      }, { lockTtl: 1000 });
+
+      expect(extendSpy).toHaveBeenCalledWith('lock:test:v1:report', expect.any(String), 1);
+      expect(heldAfterLease).toBeNull();
+    });
+
+    it('should stop renewing once the fetcher is done', async () => {
+      const extendSpy = vi.spyOn(leaseBackend, 'extendLock');
+      await leaseHandler.fetch('report', async () => 'report', { lockTtl: 300 });
+
+      await new Promise(resolve => setTimeout(resolve, 250));
+      expect(extendSpy).not.toHaveBeenCalled();
+    });
+
+    it('should keep waiters waiting past waitTimeout while the lock is renewed', async () => {
+      const otherPod = createCacheHandler({ backend: leaseBackend, prefix: 'test', version: 'v1' });
+      const holder = otherPod.fetch('report', async () => {
+        await new Promise(resolve => setTimeout(resolve, 1200));
+        return 'report';
+      }, { lockTtl: 1000 });
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const fetcher = vi.fn(async () => 'unused');
+      const result = await leaseHandler.fetch('report', fetcher, { waitTimeout: 200, lockTtl: 1000 });
+
+      expect(result).toBe('report');
+      expect(fetcher).not.toHaveBeenCalled();
+      await holder;
+      otherPod.dispose();
+    });
+
+    it('should take over a lock abandoned by its holder', async () => {
+      // A holder that crashed: its lease is never renewed nor released
+      await leaseBackend.lock('lock:test:v1:report', 0.3);
+
+      const result = await leaseHandler.fetch('report', async () => 'recovered', { waitTimeout: 100 });
+
+      expect(result).toBe('recovered');
+      expect(logEvents.some(e => e.type === 'LOCK')).toBe(true);
+    });
+
+    it('should log when the lock is lost during the fetch', async () => {
+      vi.spyOn(leaseBackend, 'extendLock').mockResolvedValue(false);
+
+      await leaseHandler.fetch('report', async () => {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        return 'report';
+      }, { lockTtl: 300 });
+
+      expect(logEvents.some(e => e.type === 'ERROR' && e.error instanceof CacheLockError)).toBe(true);
+    });
+
+    it('should log renewal errors without failing the fetch', async () => {
+      vi.spyOn(leaseBackend, 'extendLock').mockRejectedValue(new Error('extend failed'));
+
+      const result = await leaseHandler.fetch('report', async () => {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        return 'report';
+      }, { lockTtl: 300 });
+
+      expect(result).toBe('report');
+      expect(logEvents.some(e => e.type === 'ERROR' && e.error?.message === 'extend failed')).toBe(true);
+    });
+  });
+
+  describe('fetch timeouts and abort signals', () => {
+    let abortBackend: MemoryCacheBackend<unknown>;
+    let abortHandler: CacheHandler<unknown>;
+    const hang = (signal: AbortSignal) =>
+      new Promise<string>((_resolve, reject) => {
+        signal.addEventListener('abort', () => reject(signal.reason));
+      });
+
+    beforeEach(() => {
+      abortBackend = new MemoryCacheBackend<unknown>();
+      logEvents = [];
+      abortHandler = createCacheHandler({
+        backend: abortBackend,
+        prefix: 'test',
+        version: 'v1',
+        fallbackToStale: true,
+        logger: { log: (event) => logEvents.push(event) },
+      });
+    });
+
+    it('should pass an AbortSignal to the fetcher', async () => {
+      const fetcher = vi.fn(async (signal: AbortSignal) => (signal.aborted ? 'aborted' : 'value'));
+      expect(await abortHandler.fetch('key', fetcher)).toBe('value');
+      expect(fetcher).toHaveBeenCalledWith(expect.any(AbortSignal));
+    });
+
+    it('should abort the fetcher and throw CacheFetchTimeoutError after fetchTimeout', async () => {
+      let fetcherSignal: AbortSignal | undefined;
+      const start = Date.now();
+
+      const error = await abortHandler.fetch('key', (signal) => {
+        fetcherSignal = signal;
+        return hang(signal);
+      }, { fetchTimeout: 100 }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(CacheFetchTimeoutError);
+      expect(error).toBeInstanceOf(CacheTimeoutError);
+      expect(fetcherSignal?.aborted).toBe(true);
+      expect(Date.now() - start).toBeLessThan(1000);
+    });
+
+    it('should time out fetchers that ignore the signal', async () => {
+      await expect(abortHandler.fetch('key', () => new Promise<string>(() => {}), { fetchTimeout: 50 }))
+        .rejects.toThrow(CacheFetchTimeoutError);
+    });
+
+    it('should release the lock after a timeout', async () => {
+      await expect(abortHandler.fetch('key', hang, { fetchTimeout: 50 })).rejects.toThrow(CacheFetchTimeoutError);
+      expect(await abortBackend.lock('lock:test:v1:key', 1)).not.toBeNull();
+    });
+
+    it('should fall back to stale data after a timeout', async () => {
+      await abortBackend.set('stale:test:v1:key', 'stale-value');
+
+      const result = await abortHandler.fetch('key', hang, { fetchTimeout: 50 });
+
+      expect(result).toBe('stale-value');
+    });
+
+    it('should abort the fetcher when the caller aborts', async () => {
+      const controller = new AbortController();
+      let fetcherSignal: AbortSignal | undefined;
+      await abortBackend.set('stale:test:v1:key', 'stale-value');
+      setTimeout(() => controller.abort(new Error('client went away')), 50);
+
+      await expect(abortHandler.fetch('key', (signal) => {
+        fetcherSignal = signal;
+        return hang(signal);
+      }, { signal: controller.signal })).rejects.toThrow('client went away');
+      expect(fetcherSignal?.aborted).toBe(true);
+    });
+
+    it('should not run the fetcher when the signal is already aborted', async () => {
+      const fetcher = vi.fn(async () => 'value');
+
+      await expect(abortHandler.fetch('key', fetcher, { signal: AbortSignal.abort() })).rejects.toThrow();
+      expect(fetcher).not.toHaveBeenCalled();
+    });
+
+    it('should keep a coalesced load running for callers that did not abort', async () => {
+      const first = new AbortController();
+      let release: (value: string) => void = () => {};
+      let fetcherSignal: AbortSignal | undefined;
+      const fetcher = vi.fn((signal: AbortSignal) => {
+        fetcherSignal = signal;
+        return new Promise<string>((resolve) => {
+          release = resolve;
+        });
+      });
+
+      const firstCall = abortHandler.fetch('key', fetcher, { signal: first.signal });
+      const secondCall = abortHandler.fetch('key', fetcher);
+      await vi.waitFor(() => expect(fetcher).toHaveBeenCalled());
+      first.abort(new Error('caller 1 aborted'));
+
+      await expect(firstCall).rejects.toThrow('caller 1 aborted');
+      expect(fetcherSignal?.aborted).toBe(false);
+      release('value');
+      expect(await secondCall).toBe('value');
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('should let each coalesced caller abort with its own signal', async () => {
+      const first = new AbortController();
+      const second = new AbortController();
+      let fetcherSignal: AbortSignal | undefined;
+      const fetcher = vi.fn((signal: AbortSignal) => {
+        fetcherSignal = signal;
+        return hang(signal);
+      });
+
+      const firstCall = abortHandler.fetch('key', fetcher, { signal: first.signal });
+      const secondCall = abortHandler.fetch('key', fetcher, { signal: second.signal });
+      await vi.waitFor(() => expect(fetcher).toHaveBeenCalled());
+
+      second.abort(new Error('caller 2 aborted'));
+      await expect(secondCall).rejects.toThrow('caller 2 aborted');
+      expect(fetcherSignal?.aborted).toBe(false);
+
+      // The load is aborted once the last caller gives up
+      first.abort(new Error('caller 1 aborted'));
+      await expect(firstCall).rejects.toThrow('caller 1 aborted');
+      expect(fetcherSignal?.aborted).toBe(true);
+    });
+
+    it('should start a new load instead of joining one every caller abandoned', async () => {
+      const first = new AbortController();
+      const abandoned = vi.fn(hang);
+
+      const firstCall = abortHandler.fetch('key', abandoned, { signal: first.signal });
+      await vi.waitFor(() => expect(abandoned).toHaveBeenCalled());
+      first.abort(new Error('caller 1 aborted'));
+      const secondCall = abortHandler.fetch('key', async () => 'fresh');
+
+      await expect(firstCall).rejects.toThrow('caller 1 aborted');
+      expect(await secondCall).toBe('fresh');
+    });
+
+    it('should stop waiting on another holder when the caller aborts', async () => {
+      const controller = new AbortController();
+      const fetcher = vi.fn(async () => 'unused');
+      await abortBackend.lock('lock:test:v1:key', 5);
+      setTimeout(() => controller.abort(new Error('client went away')), 50);
+
+      const getSpy = vi.spyOn(abortBackend, 'get');
+
+      await expect(abortHandler.fetch('key', fetcher, { lockTimeout: 2000, signal: controller.signal }))
+        .rejects.toThrow('client went away');
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      const polls = getSpy.mock.calls.length;
+
+      // The waiter no longer polls for a value nobody is waiting for
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      expect(getSpy).toHaveBeenCalledTimes(polls);
+      expect(fetcher).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fail-open and circuit breaker', () => {
+    let flakyBackend: MemoryCacheBackend<unknown>;
+
+    const createFailOpenHandler = (options: Partial<CacheHandlerOptions<unknown>> = {}) =>
+      createCacheHandler<unknown>({
+        backend: flakyBackend,
+        prefix: 'test',
+        failOpen: true,
+        logger: { log: (event) => logEvents.push(event) },
+        l1: { enabled: false },
+        ...options,
+      });
+
+    beforeEach(() => {
+      flakyBackend = new MemoryCacheBackend<unknown>();
+      logEvents = [];
+    });
+
+    it('should call the fetcher directly when the backend get fails', async () => {
+      vi.spyOn(flakyBackend, 'get').mockRejectedValue(new Error('ECONNREFUSED'));
+      const setSpy = vi.spyOn(flakyBackend, 'set');
+
+      const result = await createFailOpenHandler().fetch('key', async () => 'direct');
+
+      expect(result).toBe('direct');
+      expect(setSpy).not.toHaveBeenCalled();
+      expect(logEvents.some(e => e.type === 'ERROR' && e.error.message === 'ECONNREFUSED')).toBe(true);
+    });
+
+    it('should call the fetcher directly when acquiring the lock fails', async () => {
+      vi.spyOn(flakyBackend, 'lock').mockRejectedValue(new Error('ECONNREFUSED'));
+      expect(await createFailOpenHandler().fetch('key', async () => 'direct')).toBe('direct');
+    });
+
+    it('should return the fetched value when storing it fails', async () => {
+      vi.spyOn(flakyBackend, 'set').mockRejectedValue(new Error('ECONNREFUSED'));
+      expect(await createFailOpenHandler().fetch('key', async () => 'direct')).toBe('direct');
+    });
+
+    it('should still throw CacheBackendError without failOpen', async () => {
+      vi.spyOn(flakyBackend, 'get').mockRejectedValue(new Error('ECONNREFUSED'));
+      await expect(createFailOpenHandler({ failOpen: false }).fetch('key', async () => 'direct'))
+        .rejects.toThrow(CacheBackendError);
+    });
+
+    it('should stop contacting the backend while the circuit is open', async () => {
+      const getSpy = vi.spyOn(flakyBackend, 'get').mockRejectedValue(new Error('ECONNREFUSED'));
+      const handler = createFailOpenHandler({ circuitBreaker: { failureThreshold: 2, resetTimeout: 60000 } });
+
+      for (let i = 0; i < 5; i++) {
+        expect(await handler.fetch('key', async () => 'direct')).toBe('direct');
+      }
+
+      expect(getSpy).toHaveBeenCalledTimes(2);
+      expect(logEvents.filter(e => e.type === 'CIRCUIT')).toEqual([
+        { type: 'CIRCUIT', key: 'test:key', state: 'open' },
+      ]);
+    });
+
+    it('should close the circuit after a successful half-open probe', async () => {
+      const getSpy = vi.spyOn(flakyBackend, 'get').mockRejectedValueOnce(new Error('ECONNREFUSED'));
+      const handler = createFailOpenHandler({ circuitBreaker: { failureThreshold: 1, resetTimeout: 50 } });
+
+      await handler.fetch('key', async () => 'direct');
+      await new Promise(resolve => setTimeout(resolve, 60));
+      expect(await handler.fetch('key', async () => 'cached')).toBe('cached');
+
+      expect(getSpy).toHaveBeenCalledTimes(2);
+      expect(logEvents.filter(e => e.type === 'CIRCUIT').map(e => e.type === 'CIRCUIT' && e.state))
+        .toEqual(['open', 'half-open', 'closed']);
+    });
+
+    it('should fail fast with the circuit open when not failing open', async () => {
+      const getSpy = vi.spyOn(flakyBackend, 'get').mockRejectedValue(new Error('ECONNREFUSED'));
+      const handler = createFailOpenHandler({ failOpen: false, circuitBreaker: { failureThreshold: 1 } });
+
+      await expect(handler.fetch('key', async () => 'direct')).rejects.toThrow(CacheBackendError);
+      await expect(handler.fetch('key', async () => 'direct')).rejects.toThrow('circuit is open');
+      expect(getSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not open the circuit when disabled', async () => {
+      const getSpy = vi.spyOn(flakyBackend, 'get').mockRejectedValue(new Error('ECONNREFUSED'));
+      const handler = createFailOpenHandler({ circuitBreaker: false });
+
+      for (let i = 0; i < 6; i++) {
+        await handler.fetch('key', async () => 'direct');
+      }
+
+      expect(getSpy).toHaveBeenCalledTimes(6);
+    });
+  });
+
+  describe('stale fallback on backend and waiter failures', () => {
+    let staleBackend: MemoryCacheBackend<unknown>;
+
+    const createStaleHandler = (options: Partial<CacheHandlerOptions<unknown>> = {}) =>
+      createCacheHandler<unknown>({
+        backend: staleBackend,
+        prefix: 'test',
+        fallbackToStale: true,
+        l1: { ttl: 0.05 },
+        logger: { log: (event) => logEvents.push(event) },
+        ...options,
+      });
+
+    beforeEach(() => {
+      staleBackend = new MemoryCacheBackend<unknown>();
+      logEvents = [];
+    });
+
+    it('should serve an expired L1 entry when the backend read fails', async () => {
+      const handler = createStaleHandler();
+      await handler.fetch('key', async () => 'cached');
+      await new Promise(resolve => setTimeout(resolve, 60));
+      vi.spyOn(staleBackend, 'get').mockRejectedValue(new Error('ECONNREFUSED'));
+
+      const result = await handler.fetch('key', async () => 'unused');
+
+      expect(result).toBe('cached');
+      expect(logEvents).toContainEqual({ type: 'STALE', key: 'test:key' });
+      handler.dispose();
+    });
+
+    it('should serve an expired L1 entry when acquiring the lock fails', async () => {
+      const handler = createStaleHandler();
+      await handler.fetch('key', async () => 'cached', { ttl: 1 });
+      await staleBackend.del('test:key');
+      await new Promise(resolve => setTimeout(resolve, 60));
+      vi.spyOn(staleBackend, 'lock').mockRejectedValue(new Error('ECONNREFUSED'));
+
+      expect(await handler.fetch('key', async () => 'unused')).toBe('cached');
+      handler.dispose();
+    });
+
+    it('should still throw CacheBackendError without fallbackToStale', async () => {
+      const handler = createStaleHandler({ fallbackToStale: false });
+      await handler.fetch('key', async () => 'cached');
+      await new Promise(resolve => setTimeout(resolve, 60));
+      vi.spyOn(staleBackend, 'get').mockRejectedValue(new Error('ECONNREFUSED'));
+
+      await expect(handler.fetch('key', async () => 'unused')).rejects.toThrow(CacheBackendError);
+      handler.dispose();
+    });
+
+    it('should serve the stale copy when a waiter times out', async () => {
+      const handler = createStaleHandler();
+      await staleBackend.set('stale:test:key', 'stale-value');
+      Object.assign(staleBackend, { extendLock: undefined });
+      await staleBackend.lock('lock:test:key', 5);
+
+      const result = await handler.fetch('key', async () => 'unused', { lockTimeout: 100 });
+
+      expect(result).toBe('stale-value');
+      expect(logEvents).toContainEqual({ type: 'STALE', key: 'test:key' });
+      handler.dispose();
+    });
+
+    it('should serve the stale copy when the holder reports failure', async () => {
+      const handler = createStaleHandler();
+      await staleBackend.set('stale:test:key', 'stale-value');
+      await staleBackend.lock('lock:test:key', 5);
+      setTimeout(() => staleBackend.publish('lock:test:key', 'failed'), 50);
+
+      expect(await handler.fetch('key', async () => 'unused', { lockTimeout: 2000 })).toBe('stale-value');
+      handler.dispose();
+    });
+
+    it('should still throw CacheTimeoutError when there is no stale copy', async () => {
+      const handler = createStaleHandler();
+      Object.assign(staleBackend, { extendLock: undefined });
+      await staleBackend.lock('lock:test:key', 5);
+
+      await expect(handler.fetch('key', async () => 'unused', { lockTimeout: 100 }))
+        .rejects.toThrow(CacheTimeoutError);
+      handler.dispose();
+    });
+
+    it('should fall back to an expired L1 entry when the fetcher fails without a stale copy', async () => {
+      const handler = createStaleHandler();
+      await handler.fetch('key', async () => 'cached', { ttl: 1 });
+      await staleBackend.del('test:key');
+      await staleBackend.del('stale:test:key');
+      await new Promise(resolve => setTimeout(resolve, 60));
+
+      const result = await handler.fetch('key', async () => { throw new Error('upstream down'); });
+
+      expect(result).toBe('cached');
+      expect(logEvents).toContainEqual({ type: 'STALE', key: 'test:key' });
+      handler.dispose();
+    });
+  });
+
+  describe('entry metadata and inspect', () => {
+    let metaBackend: MemoryCacheBackend<unknown>;
+    let metaHandler: CacheHandler<unknown>;
+
+    beforeEach(() => {
+      metaBackend = new MemoryCacheBackend<unknown>();
+      metaHandler = createCacheHandler({ backend: metaBackend, prefix: 'test', version: 'v1', fallbackToStale: true });
+    });
+
+    afterEach(() => {
+      metaHandler.dispose();
+    });
+
+    it('should return the value and metadata of a cached entry', async () => {
+      const before = Date.now();
+      await metaHandler.fetch('item', async () => ({ id: 1 }), { ttl: 60, staleTtl: 300, tags: ['items'] });
+
+      const info = await metaHandler.inspect('item');
+
+      expect(info).toMatchObject({ key: 'test:v1:item', value: { id: 1 }, stale: false });
+      expect(info?.metadata).toMatchObject({
+        version: 'v1',
+        tags: ['items'],
+        size: JSON.stringify({ id: 1 }).length,
+        fetchDurationMs: expect.any(Number),
+      });
+      const { createdAt, expiresAt, staleUntil } = info?.metadata ?? { createdAt: 0, expiresAt: 0 };
+      expect(createdAt).toBeGreaterThanOrEqual(before);
+      expect(expiresAt).toBe(createdAt + 60_000);
+      expect(staleUntil).toBe(createdAt + 300_000);
+    });
+
+    it('should fall back to the stale copy', async () => {
+      await metaHandler.fetch('item', async () => 'value', { ttl: 60, staleTtl: 300 });
+      await metaBackend.del('test:v1:item');
+
+      expect(await metaHandler.inspect('item')).toMatchObject({
+        key: 'stale:test:v1:item',
+        value: 'value',
+        stale: true,
+      });
+    });
+
+    it('should return undefined for missing keys', async () => {
+      expect(await metaHandler.inspect('missing')).toBeUndefined();
+    });
+
+    it('should not call the fetcher or populate L1', async () => {
+      await metaBackend.set('test:v1:item', 'raw');
+      expect(await metaHandler.inspect('item')).toEqual({
+        key: 'test:v1:item',
+        value: 'raw',
+        metadata: undefined,
+        stale: false,
+      });
+
+      await metaBackend.set('test:v1:item', 'changed');
+      expect(await metaHandler.fetch('item', async () => 'fetched')).toBe('changed');
+    });
+
+    it('should cache undefined and null results', async () => {
+      const fetcher = vi.fn(async () => null);
+      await metaHandler.fetch('nothing', fetcher, { skipL1: true });
+      expect(await metaHandler.fetch('nothing', fetcher, { skipL1: true })).toBeNull();
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('direct get, set, delete, has and peek', () => {
+    let directBackend: MemoryCacheBackend<unknown>;
+    let directHandler: CacheHandler<unknown>;
+
+    beforeEach(() => {
+      directBackend = new MemoryCacheBackend<unknown>();
+      directHandler = createCacheHandler({
+        backend: directBackend,
+        prefix: 'test',
+        version: 'v1',
+        fallbackToStale: true,
+        logger: { log: (event) => logEvents.push(event) },
+      });
+    });
+
+    afterEach(() => {
+      directHandler.dispose();
+    });
+
+    it('should set values under the full key with a stale copy and log SET', async () => {
+      await directHandler.set('item', 'value', { ttl: 60, staleTtl: 300 });
+
+      expect(await directBackend.get('test:v1:item')).toMatchObject({ value: 'value' });
+      expect(await directBackend.get('stale:test:v1:item')).toMatchObject({ value: 'value' });
+      expect(logEvents).toContainEqual({ type: 'SET', key: 'test:v1:item' });
+    });
+
+    it('should read values set directly or by fetch', async () => {
+      await directHandler.set('a', 1);
+      await directHandler.fetch('b', async () => 2);
+
+      expect(await directHandler.get('a')).toBe(1);
+      expect(await directHandler.get('b')).toBe(2);
+      expect(await directHandler.fetch('a', async () => 3)).toBe(1);
+    });
+
+    it('should log MISS and return undefined for missing keys', async () => {
+      expect(await directHandler.get('missing')).toBeUndefined();
+      expect(logEvents).toContainEqual({ type: 'MISS', key: 'test:v1:missing' });
+    });
+
+    it('should populate L1 on get', async () => {
+      await directBackend.set('test:v1:item', 'first');
+      expect(await directHandler.get('item')).toBe('first');
+
+      await directBackend.set('test:v1:item', 'second');
+      expect(await directHandler.get('item')).toBe('first');
+    });
+
+    it('should peek at the backend without populating L1 or logging', async () => {
+      await directBackend.set('test:v1:item', 'first');
+      expect(await directHandler.peek('item')).toBe('first');
+      expect(logEvents).toEqual([]);
+
+      await directBackend.set('test:v1:item', 'second');
+      expect(await directHandler.get('item')).toBe('second');
+    });
+
+    it('should report cached null values with has', async () => {
+      await directHandler.set('nothing', null);
+
+      expect(await directHandler.has('nothing')).toBe(true);
+      expect(await directHandler.has('missing')).toBe(false);
+    });
+
+    it('should delete the value, its stale copy and its L1 entry', async () => {
+      await directHandler.fetch('item', async () => 'old', { staleTtl: 300 });
+
+      await directHandler.delete('item');
+
+      expect(await directBackend.get('test:v1:item')).toBeUndefined();
+      expect(await directBackend.get('stale:test:v1:item')).toBeUndefined();
+      expect(await directHandler.fetch('item', async () => 'new')).toBe('new');
+      expect(logEvents).toContainEqual({ type: 'INVALIDATE', key: 'test:v1:item' });
+    });
+
+    it('should drop an older L1 entry when setting with skipL1', async () => {
+      await directHandler.fetch('item', async () => 'old');
+      await directHandler.set('item', 'new', { skipL1: true });
+
+      expect(await directHandler.get('item')).toBe('new');
+    });
+
+    it('should wrap backend failures in CacheBackendError', async () => {
+      directBackend.get = async () => { throw new Error('down'); };
+      directBackend.del = async () => { throw new Error('down'); };
+
+      await expect(directHandler.get('item')).rejects.toThrow(CacheBackendError);
+      await expect(directHandler.has('item')).rejects.toThrow(CacheBackendError);
+      await expect(directHandler.delete('item')).rejects.toThrow(CacheBackendError);
+    });
+
+    it('should read failures as misses under failOpen', async () => {
+      const failOpenHandler = createCacheHandler({ backend: directBackend, failOpen: true, circuitBreaker: false });
+      directBackend.get = async () => { throw new Error('down'); };
+
+      expect(await failOpenHandler.get('item')).toBeUndefined();
+      expect(await failOpenHandler.has('item')).toBe(false);
+      failOpenHandler.dispose();
+    });
+  });
+
+  describe('fetchMany', () => {
+    let batchBackend: MemoryCacheBackend<unknown>;
+    let batchHandler: CacheHandler<unknown>;
+
+    beforeEach(() => {
+      batchBackend = new MemoryCacheBackend<unknown>();
+      batchHandler = createCacheHandler({
+        backend: batchBackend,
+        prefix: 'test',
+        version: 'v1',
+        logger: { log: (event) => logEvents.push(event) },
+      });
+    });
+
+    afterEach(() => {
+      batchHandler.dispose();
+    });
+
+    it('should read every key in one round trip and fetch only the misses in one batch', async () => {
+      await batchHandler.set('a', 'cached-a');
+      batchHandler.dispose();
+      batchHandler = createCacheHandler({ backend: batchBackend, prefix: 'test', version: 'v1' });
+      const mget = vi.spyOn(batchBackend, 'mget');
+      const batchFetcher = vi.fn(async (keys: string[]) => keys.map((key) => `fetched-${key}`));
+
+      const result = await batchHandler.fetchMany(['a', 'b', 'c'], batchFetcher);
+
+      expect(result).toEqual(['cached-a', 'fetched-b', 'fetched-c']);
+      expect(mget).toHaveBeenCalledTimes(1);
+      expect(mget).toHaveBeenCalledWith(['test:v1:a', 'test:v1:b', 'test:v1:c']);
+      expect(batchFetcher).toHaveBeenCalledTimes(1);
+      expect(batchFetcher).toHaveBeenCalledWith(['b', 'c'], expect.any(AbortSignal));
+    });
+
+    it('should write fetched values back with one mset and release every lock', async () => {
+      const mset = vi.spyOn(batchBackend, 'mset');
+
+      await batchHandler.fetchMany(['a', 'b'], async (keys) => keys.map((key) => key.toUpperCase()), { ttl: 60 });
+
+      expect(mset).toHaveBeenCalledTimes(1);
+      expect(await batchBackend.get('test:v1:a')).toMatchObject({ value: 'A' });
+      expect(await batchBackend.get('test:v1:b')).toMatchObject({ value: 'B' });
+      expect(await batchBackend.lock('lock:test:v1:a', 1)).not.toBeNull();
+      expect(await batchBackend.lock('lock:test:v1:b', 1)).not.toBeNull();
+    });
+
+    it('should serve later calls from the cache', async () => {
+      const batchFetcher = vi.fn(async (keys: string[]) => keys.map((key) => key.length));
+      await batchHandler.fetchMany(['a', 'bb'], batchFetcher);
+
+      expect(await batchHandler.fetchMany(['bb', 'a', 'bb'], batchFetcher)).toEqual([2, 1, 2]);
+      expect(await batchHandler.fetch('a', async () => 0)).toBe(1);
+      expect(batchFetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to get and set when the backend has no mget or mset', async () => {
+      const plainBackend = new MemoryCacheBackend<unknown>();
+      Object.assign(plainBackend, { mget: undefined, mset: undefined });
+      const plainHandler = createCacheHandler({ backend: plainBackend, prefix: 'test' });
+      await plainBackend.set('test:a', 'cached');
+
+      const result = await plainHandler.fetchMany(['a', 'b'], async (keys) => keys.map(() => 'fetched'));
+
+      expect(result).toEqual(['cached', 'fetched']);
+      expect(await plainBackend.get('test:b')).toMatchObject({ value: 'fetched' });
+      plainHandler.dispose();
+    });
+
+    it('should wait for keys locked by another caller instead of fetching them', async () => {
+      await batchBackend.lock('lock:test:v1:b', 5);
+      setTimeout(() => batchBackend.set('test:v1:b', 'from-holder'), 50);
+      const batchFetcher = vi.fn(async (keys: string[]) => keys.map((key) => `fetched-${key}`));
+
+      const result = await batchHandler.fetchMany(['a', 'b'], batchFetcher, { lockTimeout: 2000 });
+
+      expect(result).toEqual(['fetched-a', 'from-holder']);
+      expect(batchFetcher).toHaveBeenCalledWith(['a'], expect.any(AbortSignal));
+      expect(logEvents).toContainEqual({ type: 'WAIT', key: 'lock:test:v1:b' });
+    });
+
+    it('should reject batch fetchers that return the wrong number of values', async () => {
+      await expect(batchHandler.fetchMany(['a', 'b'], async () => ['only-one']))
+        .rejects.toThrow('Batch fetcher returned 1 values for 2 keys');
+      expect(await batchBackend.lock('lock:test:v1:a', 1)).not.toBeNull();
+    });
+
+    it('should serve stale copies when the batch fetcher fails', async () => {
+      const staleHandler = createCacheHandler({ backend: batchBackend, prefix: 'test', fallbackToStale: true });
+      await batchBackend.set('stale:test:a', 'old-a');
+      await batchBackend.set('stale:test:b', 'old-b');
+
+      const result = await staleHandler.fetchMany(['a', 'b'], async () => { throw new Error('upstream down'); });
+
+      expect(result).toEqual(['old-a', 'old-b']);
+      staleHandler.dispose();
+    });
+
+    it('should fetch uncached when the backend fails under failOpen', async () => {
+      const failOpenHandler = createCacheHandler({ backend: batchBackend, failOpen: true, circuitBreaker: false });
+      vi.spyOn(batchBackend, 'mget').mockRejectedValue(new Error('down'));
+
+      const result = await failOpenHandler.fetchMany(['a', 'b'], async (keys) => keys);
+
+      expect(result).toEqual(['a', 'b']);
+      failOpenHandler.dispose();
+    });
+
+    it('should throw CacheBackendError when the backend fails', async () => {
+      vi.spyOn(batchBackend, 'mget').mockRejectedValue(new Error('down'));
+
+      await expect(batchHandler.fetchMany(['a'], async (keys) => keys)).rejects.toThrow(CacheBackendError);
+    });
+  });
+
+  describe('schema validation', () => {
+    interface Product {
+      id: number;
+      name: string;
+    }
+
+    const productSchema = {
+      parse: (value: unknown): Product => {
+        const product = value as Product;
+        if (typeof product?.id !== 'number' || typeof product?.name !== 'string') {
+          throw new Error('Expected a product');
+        }
+        return product;
+      },
+    };
+
+    let schemaBackend: MemoryCacheBackend<unknown>;
+    let schemaHandler: CacheHandler<unknown>;
+
+    beforeEach(() => {
+      schemaBackend = new MemoryCacheBackend<unknown>();
+      schemaHandler = createCacheHandler({
+        backend: schemaBackend,
+        prefix: 'test',
+        schema: productSchema,
+        logger: { log: (event) => logEvents.push(event) },
+      });
+    });
+
+    afterEach(() => {
+      schemaHandler.dispose();
+    });
+
+    it('should treat an invalid cached value as a miss, delete it and log INVALID', async () => {
+      await schemaBackend.set('test:product', { id: 1, title: 'old shape' });
+      const fetcher = vi.fn(async () => ({ id: 1, name: 'new shape' }));
+
+      expect(await schemaHandler.fetch('product', fetcher)).toEqual({ id: 1, name: 'new shape' });
+
+      expect(fetcher).toHaveBeenCalledTimes(1);
+      const invalid = logEvents.find((event) => event.type === 'INVALID');
+      expect(invalid).toMatchObject({ type: 'INVALID', key: 'test:product' });
+      expect(invalid?.type === 'INVALID' && invalid.error).toBeInstanceOf(CacheValidationError);
+      expect(await schemaBackend.get('test:product')).toMatchObject({ value: { id: 1, name: 'new shape' } });
+    });
+
+    it('should serve valid cached values', async () => {
+      await schemaBackend.set('test:product', { id: 1, name: 'cached' });
+
+      expect(await schemaHandler.fetch('product', async () => ({ id: 2, name: 'fetched' })))
+        .toEqual({ id: 1, name: 'cached' });
+    });
+
+    it('should let fetch options override the handler schema', async () => {
+      await schemaBackend.set('test:count', 42);
+
+      expect(await schemaHandler.fetch('count', async () => 0, { schema: (value) => Number(value) })).toBe(42);
+    });
+
+    it('should delete invalid stale copies instead of serving them', async () => {
+      const staleHandler = createCacheHandler({
+        backend: schemaBackend,
+        prefix: 'test',
+        schema: productSchema,
+        fallbackToStale: true,
+      });
+      await schemaBackend.set('stale:test:product', 'not a product');
+
+      await expect(staleHandler.fetch('product', async () => { throw new Error('upstream down'); }))
+        .rejects.toThrow('upstream down');
+      expect(await schemaBackend.get('stale:test:product')).toBeUndefined();
+      staleHandler.dispose();
+    });
+
+    it('should validate direct reads and batch reads', async () => {
+      await schemaBackend.set('test:a', { id: 1 });
+      await schemaBackend.set('test:b', { id: 2, name: 'valid' });
+
+      expect(await schemaHandler.get('a')).toBeUndefined();
+      expect(await schemaHandler.fetchMany(['a', 'b'], async (keys) => keys.map(() => ({ id: 0, name: 'fetched' }))))
+        .toEqual([{ id: 0, name: 'fetched' }, { id: 2, name: 'valid' }]);
+    });
+  });
+
+  describe('wrap', () => {
+    let wrapBackend: MemoryCacheBackend<unknown>;
+    let wrapHandler: CacheHandler<unknown>;
+
+    beforeEach(() => {
+      wrapBackend = new MemoryCacheBackend<unknown>();
+      wrapHandler = createCacheHandler({ backend: wrapBackend, prefix: 'test' });
+    });
+
+    afterEach(() => {
+      wrapHandler.dispose();
+    });
+
+    it('should cache calls by their arguments', async () => {
+      const getUser = vi.fn(async (id: number, options: { full: boolean }) => ({ id, full: options.full }));
+      const cachedGetUser = wrapHandler.wrap(getUser, { name: 'getUser' });
+
+      expect(await cachedGetUser(1, { full: true })).toEqual({ id: 1, full: true });
+      expect(await cachedGetUser(1, { full: true })).toEqual({ id: 1, full: true });
+      expect(await cachedGetUser(2, { full: true })).toEqual({ id: 2, full: true });
+
+      expect(getUser).toHaveBeenCalledTimes(2);
+    });
+
+    it('should derive stable keys from the function name and a hash of the arguments', () => {
+      async function loadProducts(filter: { category: string; page: number }) {
+        return [filter.category];
+      }
+      const cachedLoadProducts = wrapHandler.wrap(loadProducts);
+
+      const key = cachedLoadProducts.key({ category: 'lamps', page: 1 });
+      expect(key).toMatch(/^loadProducts:[0-9a-f]{40}$/);
+      expect(cachedLoadProducts.key({ page: 1, category: 'lamps' })).toBe(key);
+      expect(cachedLoadProducts.key({ category: 'lamps', page: 2 })).not.toBe(key);
+    });
+
+    it('should pass fetch options through and store under the prefixed key', async () => {
+      async function loadConfig(env: string) {
+        return { env };
+      }
+      const cachedLoadConfig = wrapHandler.wrap(loadConfig, { ttl: 30 });
+
+      await cachedLoadConfig('prod');
+
+      const info = await wrapHandler.inspect(cachedLoadConfig.key('prod'));
+      expect(info?.key).toBe(`test:${cachedLoadConfig.key('prod')}`);
+      expect(info?.metadata?.expiresAt).toBe((info?.metadata?.createdAt ?? 0) + 30_000);
+    });
+
+    it('should invalidate the cached result of one call', async () => {
+      let version = 1;
+      const cachedRead = wrapHandler.wrap(async (id: string) => `${id}-v${version}`, { name: 'read' });
+      await cachedRead('a');
+      await cachedRead('b');
+      version = 2;
+
+      await cachedRead.invalidate('a');
+
+      expect(await cachedRead('a')).toBe('a-v2');
+      expect(await cachedRead('b')).toBe('b-v1');
+    });
+
+    it('should use a custom key builder', async () => {
+      const cachedRead = wrapHandler.wrap(async (id: number) => id * 2, { key: (id) => `double:${id}` });
+
+      expect(cachedRead.key(21)).toBe('double:21');
+      expect(await cachedRead(21)).toBe(42);
+      expect(await wrapHandler.peek('double:21')).toBe(42);
+    });
+
+    it('should throw CacheConfigError for anonymous functions without a name', () => {
+      expect(() => wrapHandler.wrap(((fn) => fn)(async () => 1))).toThrow(CacheConfigError);
+    });
+
+    it('should cache calls with different URL arguments separately', async () => {
+      const cachedGetPage = wrapHandler.wrap(async (url: URL) => url.href, { name: 'getPage' });
+
+      expect(await cachedGetPage(new URL('https://a/'))).toBe('https://a/');
+      expect(await cachedGetPage(new URL('https://b/'))).toBe('https://b/');
+    });
+
+    it('should reject arguments whose state it cannot see', async () => {
+      class Token {
+        #secret: string;
+        constructor(secret: string) {
+          this.#secret = secret;
+        }
+        get short() {
+          return this.#secret.slice(0, 1);
+        }
+      }
+      const cachedRead = wrapHandler.wrap(async (token: Token) => token.short, { name: 'read' });
+
+      await expect(cachedRead(new Token('a'))).rejects.toThrow(CacheSerializationError);
+      await expect(cachedRead.invalidate(new Token('a'))).rejects.toThrow(CacheSerializationError);
+    });
+
+    it('should reject rather than throw when the arguments cannot be hashed', async () => {
+      const cachedCall = wrapHandler.wrap(async (callback: () => number) => callback(), { name: 'call' });
+
+      const pending = cachedCall(() => 1);
+      expect(pending).toBeInstanceOf(Promise);
+      await expect(pending).rejects.toThrow(CacheSerializationError);
+    });
+  });
+
+  describe('cross-handler L1 invalidation', () => {
+    let sharedBackend: MemoryCacheBackend<unknown>;
+    let first: CacheHandler<unknown>;
+    let second: CacheHandler<unknown>;
+
+    const create = (options: Partial<CacheHandlerOptions<unknown>> = {}) =>
+      createCacheHandler({ backend: sharedBackend, prefix: 'test', version: 'v1', ...options });
+
+    // Load the key into the second handler's L1; a later fetch that skips the fetcher must come from L1 or the backend
+    const warm = async (key: string) => {
+      await second.fetch(key, async () => 'original', { ttl: 60 });
+    };
+
+    beforeEach(() => {
+      sharedBackend = new MemoryCacheBackend<unknown>();
+      first = create();
+      second = create();
+    });
+
+    afterEach(() => {
+      first.dispose();
+      second.dispose();
+    });
+
+    it('should leave no open connections or timers behind once disposed', async () => {
+      vi.useFakeTimers();
+      const subscriber = { on: vi.fn(), subscribe: vi.fn(async () => 1), unsubscribe: vi.fn(), disconnect: vi.fn() };
+      const client = { duplicate: vi.fn(() => subscriber) };
+      const redisHandler = createCacheHandler({ backend: new RedisCacheBackend(client as unknown as Redis, 'app') });
+      await vi.advanceTimersByTimeAsync(0);
+      expect(subscriber.subscribe).toHaveBeenCalledWith('app:l1:invalidate');
+
+      redisHandler.dispose();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(subscriber.disconnect).toHaveBeenCalledTimes(1);
+      expect(vi.getTimerCount()).toBe(0);
+      vi.useRealTimers();
+    });
+
+    it('should evict overwritten keys from other handlers', async () => {
+      await warm('item');
+
+      await first.set('item', 'updated', { ttl: 60 });
+
+      expect(await second.fetch('item', async () => 'refetched')).toBe('updated');
+    });
+
+    it('should evict deleted keys from other handlers', async () => {
+      await warm('item');
+
+      await first.delete('item');
+
+      expect(await second.fetch('item', async () => 'refetched')).toBe('refetched');
+    });
+
+    it('should evict tag-invalidated keys from other handlers', async () => {
+      await second.fetch('item', async () => 'original', { ttl: 60, tags: ['items'] });
+
+      await first.invalidateTag('items');
+
+      expect(await second.fetch('item', async () => 'refetched')).toBe('refetched');
+    });
+
+    it('should keep serving L1 when invalidation is disabled', async () => {
+      second.dispose();
+      second = create({ l1: { invalidation: false } });
+      await warm('item');
+
+      await first.delete('item');
+
+      expect(await second.fetch('item', async () => 'refetched')).toBe('original');
+    });
+
+    it('should not broadcast when L1 is disabled', async () => {
+      first.dispose();
+      const publishSpy = vi.spyOn(sharedBackend, 'publish');
+      first = create({ l1: { enabled: false } });
+
+      await first.set('item', 'value', { ttl: 60 });
+
+      expect(publishSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('backend key tracking', () => {
+    let trackedBackend: MemoryCacheBackend<unknown>;
+    let listener: CacheTrackingListener | undefined;
+    let stopTracking: ReturnType<typeof vi.fn>;
+    let trackedHandler: CacheHandler<unknown>;
+
+    const createTracked = (track: CacheBackend<unknown>['track']) => {
+      Object.assign(trackedBackend, { track });
+      return createCacheHandler({
+        backend: trackedBackend,
+        prefix: 'test',
+        version: 'v1',
+        l1: { ttl: 0.05, trackedTtl: 60 },
+        logger: { log: (event) => logEvents.push(event) },
+      });
+    };
+
+    beforeEach(async () => {
+      trackedBackend = new MemoryCacheBackend<unknown>();
+      stopTracking = vi.fn(async () => {});
+      trackedHandler = createTracked(async (trackingListener) => {
+        listener = trackingListener;
+        return stopTracking;
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    });
+
+    afterEach(() => {
+      trackedHandler.dispose();
+    });
+
+    it('should keep L1 entries for trackedTtl until the backend reports a change', async () => {
+      await trackedHandler.fetch('item', async () => 'original', { ttl: 60 });
+      const getSpy = vi.spyOn(trackedBackend, 'get');
+
+      // Past the short L1 ttl
+      await new Promise((resolve) => setTimeout(resolve, 80));
+      expect(await trackedHandler.get('item')).toBe('original');
+      expect(getSpy).not.toHaveBeenCalled();
+
+      listener?.onInvalidate(['test:v1:item']);
+      await trackedHandler.get('item');
+      expect(getSpy).toHaveBeenCalledWith('test:v1:item');
+    });
+
+    it('should only watch its own value keys', () => {
+      expect(listener?.prefix).toBe('test:v1:');
+    });
+
+    it('should drop L1 entries when tracking is lost', async () => {
+      await trackedHandler.fetch('item', async () => 'original', { ttl: 60 });
+      const getSpy = vi.spyOn(trackedBackend, 'get');
+
+      listener?.onStateChange?.(false);
+
+      await trackedHandler.get('item');
+      expect(getSpy).toHaveBeenCalledWith('test:v1:item');
+    });
+
+    it('should fall back to the short L1 ttl and log ERROR when tracking fails', async () => {
+      trackedHandler.dispose();
+      trackedHandler = createTracked(async () => {
+        throw new CacheBackendError('tracking not supported');
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(logEvents).toContainEqual(expect.objectContaining({ type: 'ERROR', key: 'test:l1:tracking' }));
+
+      await trackedHandler.fetch('item', async () => 'original', { ttl: 60 });
+      const getSpy = vi.spyOn(trackedBackend, 'get');
+      await new Promise((resolve) => setTimeout(resolve, 80));
+
+      await trackedHandler.get('item');
+      expect(getSpy).toHaveBeenCalledWith('test:v1:item');
+    });
+
+    it('should stop tracking on dispose', async () => {
+      trackedHandler.dispose();
+
+      await vi.waitFor(() => expect(stopTracking).toHaveBeenCalledTimes(1));
+    });
+  });
+
+  describe('cacheIf, negativeTtl and ttlFor', () => {
+    let conditionalBackend: MemoryCacheBackend<unknown>;
+    let conditionalHandler: CacheHandler<unknown>;
+
+    const create = () => createCacheHandler({
+      backend: conditionalBackend,
+      prefix: 'test',
+      version: 'v1',
+      l1: { enabled: false },
+      logger: { log: (event) => logEvents.push(event) },
+    });
+
+    beforeEach(() => {
+      conditionalBackend = new MemoryCacheBackend<unknown>();
+      conditionalHandler = create();
+    });
+
+    afterEach(() => {
+      conditionalHandler.dispose();
+    });
+
+    it('should return but not cache values rejected by cacheIf', async () => {
+      const fetcher = vi.fn(async () => ({ error: 'upstream unavailable' }));
+      const cacheIf = (value: unknown) => !(value as { error?: string }).error;
+
+      expect(await conditionalHandler.fetch('item', fetcher, { cacheIf })).toEqual({ error: 'upstream unavailable' });
+      await conditionalHandler.fetch('item', fetcher, { cacheIf });
+
+      expect(fetcher).toHaveBeenCalledTimes(2);
+      expect(await conditionalHandler.has('item')).toBe(false);
+      expect(logEvents).toContainEqual({ type: 'SKIP', key: 'test:v1:item' });
+    });
+
+    it('should cache null and undefined for negativeTtl', async () => {
+      await conditionalHandler.fetch('missing', async () => null, { ttl: 300, negativeTtl: 10 });
+      await conditionalHandler.fetch('found', async () => 'product', { ttl: 300, negativeTtl: 10 });
+
+      const missing = await conditionalHandler.inspect('missing');
+      const found = await conditionalHandler.inspect('found');
+      expect(missing?.value).toBeNull();
+      expect(missing?.metadata?.expiresAt).toBe((missing?.metadata?.createdAt ?? 0) + 10_000);
+      expect(found?.metadata?.expiresAt).toBe((found?.metadata?.createdAt ?? 0) + 300_000);
+    });
+
+    it('should prefer ttlFor and fall back when it returns undefined', async () => {
+      const ttlFor = (value: unknown) => ((value as { live?: boolean } | null)?.live ? 5 : undefined);
+      const options = { ttl: 300, negativeTtl: 10, ttlFor };
+
+      await conditionalHandler.fetch('live', async () => ({ live: true }), options);
+      await conditionalHandler.fetch('static', async () => ({ live: false }), options);
+      await conditionalHandler.fetch('missing', async () => null, options);
+
+      const ttlOf = async (key: string) => {
+        const info = await conditionalHandler.inspect(key);
+        return ((info?.metadata?.expiresAt ?? 0) - (info?.metadata?.createdAt ?? 0)) / 1000;
+      };
+      expect(await ttlOf('live')).toBe(5);
+      expect(await ttlOf('static')).toBe(300);
+      expect(await ttlOf('missing')).toBe(10);
+    });
+
+    it('should apply cacheIf and per-value TTLs to fetchMany', async () => {
+      const values = await conditionalHandler.fetchMany(
+        ['a', 'b', 'c'],
+        async (keys) => keys.map((key) => (key === 'b' ? null : key === 'c' ? { error: true } : key)),
+        { ttl: 300, negativeTtl: 10, cacheIf: (value) => !(value as { error?: boolean } | null)?.error },
+      );
+
+      expect(values).toEqual(['a', null, { error: true }]);
+      const b = await conditionalHandler.inspect('b');
+      expect(b?.metadata?.expiresAt).toBe((b?.metadata?.createdAt ?? 0) + 10_000);
+      expect(await conditionalHandler.has('a')).toBe(true);
+      expect(await conditionalHandler.has('c')).toBe(false);
+    });
+
+    it('should let waiters fetch for themselves when the holder could not cache', async () => {
+      const other = create();
+      const cacheIf = (value: unknown) => value !== 'error';
+      const holderFetcher = vi.fn(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return 'error';
+      });
+      const waiterFetcher = vi.fn(async () => 'error');
+
+      const holder = conditionalHandler.fetch('item', holderFetcher, { cacheIf });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      const waiter = other.fetch('item', waiterFetcher, { cacheIf, lockTimeout: 5000 });
+
+      expect(await Promise.all([holder, waiter])).toEqual(['error', 'error']);
+      expect(waiterFetcher).toHaveBeenCalledTimes(1);
+      expect(logEvents).toContainEqual({ type: 'WAIT', key: 'lock:test:v1:item' });
+      other.dispose();
+    });
+  });
+
+  describe('computed and absolute expirations', () => {
+    let expiryBackend: MemoryCacheBackend<unknown>;
+    let expiryHandler: CacheHandler<unknown>;
+
+    const lifetimes = async (key: string) => {
+      const info = await expiryHandler.inspect(key);
+      const createdAt = info?.metadata?.createdAt ?? 0;
+      return {
+        ttl: ((info?.metadata?.expiresAt ?? 0) - createdAt) / 1000,
+        staleTtl: ((info?.metadata?.staleUntil ?? 0) - createdAt) / 1000,
+      };
+    };
+
+    beforeEach(() => {
+      expiryBackend = new MemoryCacheBackend<unknown>();
+      expiryHandler = createCacheHandler({
+        backend: expiryBackend,
+        prefix: 'test',
+        version: 'v1',
+        fallbackToStale: true,
+        l1: { enabled: false },
+        logger: { log: (event) => logEvents.push(event) },
+      });
+    });
+
+    afterEach(() => {
+      expiryHandler.dispose();
+      vi.restoreAllMocks();
+    });
+
+    it('should compute ttl from the fetched value', async () => {
+      await expiryHandler.fetch('page', async () => ({ maxAge: 42 }), {
+        ttl: (value) => (value as { maxAge: number }).maxAge,
+        staleTtl: 600,
+      });
+
+      expect(await lifetimes('page')).toEqual({ ttl: 42, staleTtl: 600 });
+    });
+
+    it('should cache until expiresAt, in whole seconds', async () => {
+      await expiryHandler.fetch('sale', async () => 'on sale', {
+        expiresAt: new Date(Date.now() + 90_500),
+        staleTtl: 600,
+      });
+
+      expect(await lifetimes('sale')).toEqual({ ttl: 90, staleTtl: 600 });
+      expect(await expiryBackend.get('stale:test:v1:sale')).toMatchObject({ value: 'on sale' });
+    });
+
+    it('should compute expiresAt from the fetched value', async () => {
+      const endsAt = new Date(Date.now() + 30_000);
+
+      await expiryHandler.fetch('sale', async () => ({ endsAt }), {
+        expiresAt: (value) => (value as { endsAt: Date }).endsAt,
+      });
+
+      const { ttl } = await lifetimes('sale');
+      expect(ttl).toBeGreaterThanOrEqual(29);
+      expect(ttl).toBeLessThanOrEqual(30);
+    });
+
+    it('should not cache values whose expiry has passed', async () => {
+      const fetcher = vi.fn(async () => 'ended');
+
+      expect(await expiryHandler.fetch('sale', fetcher, { expiresAt: new Date(Date.now() - 1000) })).toBe('ended');
+
+      expect(await expiryHandler.has('sale')).toBe(false);
+      expect(logEvents).toContainEqual({ type: 'SKIP', key: 'test:v1:sale' });
+    });
+
+    it('should shorten the ttl by up to ttlJitter and move the stale copy by the same amount', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      await expiryHandler.fetch('item', async () => 'value', { ttl: 100, staleTtl: 1000, ttlJitter: 0.2 });
+
+      expect(await lifetimes('item')).toEqual({ ttl: 90, staleTtl: 990 });
+    });
+
+    it('should not cache values given a TTL of 0 or less', async () => {
+      const options = {
+        ttl: (value: unknown) => (value as { maxAge: number }).maxAge,
+        ttlFor: (value: unknown) => ((value as { maxAge: number } | null)?.maxAge === -1 ? -5 : undefined),
+        negativeTtl: 0,
+      };
+
+      expect(await expiryHandler.fetch('fresh', async () => ({ maxAge: 0 }), options)).toEqual({ maxAge: 0 });
+      expect(await expiryHandler.fetch('negative', async () => ({ maxAge: -1 }), options)).toEqual({ maxAge: -1 });
+      expect(await expiryHandler.fetch('missing', async () => null, options)).toBeNull();
+
+      for (const key of ['fresh', 'negative', 'missing']) {
+        expect(await expiryHandler.has(key)).toBe(false);
+        expect(logEvents).toContainEqual({ type: 'SKIP', key: `test:v1:${key}` });
+      }
+    });
+
+    it('should delete the previous value when set with an expiry that has passed', async () => {
+      await expiryHandler.set('item', 'old', { ttl: 60, staleTtl: 600 });
+      logEvents = [];
+
+      await expiryHandler.set('item', 'new', { expiresAt: new Date(Date.now() - 1000) });
+
+      expect(await expiryHandler.peek('item')).toBeUndefined();
+      expect(await expiryBackend.get('stale:test:v1:item')).toBeUndefined();
+      expect(logEvents.map(({ type }) => type)).toEqual(['SKIP', 'INVALIDATE']);
+    });
+
+    it('should apply expiresAt and ttlJitter to direct writes', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(1);
+
+      await expiryHandler.set('item', 'value', { expiresAt: new Date(Date.now() + 200_500), ttlJitter: 0.5, staleTtl: 1000 });
+
+      expect(await lifetimes('item')).toEqual({ ttl: 100, staleTtl: 900 });
+    });
+  });
+
+  describe('sliding expiration', () => {
+    let slidingBackend: MemoryCacheBackend<unknown>;
+    let slidingHandler: CacheHandler<unknown>;
+
+    beforeEach(() => {
+      slidingBackend = new MemoryCacheBackend<unknown>();
+      slidingHandler = createCacheHandler({
+        backend: slidingBackend,
+        prefix: 'test',
+        version: 'v1',
+        fallbackToStale: true,
+        logger: { log: (event) => logEvents.push(event) },
+      });
+    });
+
+    afterEach(() => {
+      slidingHandler.dispose();
+      vi.restoreAllMocks();
+    });
+
+    it('should reset the ttl of the value and its stale copy on a hit', async () => {
+      const touchSpy = vi.spyOn(slidingBackend, 'touch');
+      const options = { ttl: 60, staleTtl: 600, sliding: true };
+      await slidingHandler.fetch('item', async () => 'value', options);
+      expect(touchSpy).not.toHaveBeenCalled();
+
+      expect(await slidingHandler.fetch('item', async () => 'other', options)).toBe('value');
+
+      await vi.waitFor(() => expect(touchSpy).toHaveBeenCalledTimes(2));
+      expect(touchSpy).toHaveBeenCalledWith('test:v1:item', 60);
+      expect(touchSpy).toHaveBeenCalledWith('stale:test:v1:item', 600);
+    });
+
+    it('should touch a key at most once per tenth of its ttl', async () => {
+      vi.useFakeTimers();
+      const touchSpy = vi.spyOn(slidingBackend, 'touch');
+      const touchedKeys = () => touchSpy.mock.calls.filter(([key]) => key === 'test:v1:item').length;
+      const options = { ttl: 60, sliding: true, skipL1: true };
+      await slidingHandler.fetch('item', async () => 'value', options);
+
+      await slidingHandler.fetch('item', async () => 'value', options);
+      await slidingHandler.fetch('item', async () => 'value', options);
+      await vi.advanceTimersByTimeAsync(5999);
+      await slidingHandler.fetch('item', async () => 'value', options);
+      expect(touchedKeys()).toBe(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      await slidingHandler.fetch('item', async () => 'value', options);
+      expect(touchedKeys()).toBe(2);
+      vi.useRealTimers();
+    });
+
+    it('should keep a value that is read before it expires', async () => {
+      vi.useFakeTimers();
+      const fetcher = vi.fn(async () => 'value');
+      const options = { ttl: 10, sliding: true, skipL1: true };
+      await slidingHandler.fetch('item', fetcher, options);
+
+      for (let i = 0; i < 3; i++) {
+        await vi.advanceTimersByTimeAsync(8000);
+        await slidingHandler.fetch('item', fetcher, options);
+      }
+
+      expect(fetcher).toHaveBeenCalledTimes(1);
+      vi.useRealTimers();
+    });
+
+    it('should touch hits in fetchMany', async () => {
+      const touchSpy = vi.spyOn(slidingBackend, 'touch');
+      await slidingHandler.set('a', 1, { ttl: 60 });
+
+      await slidingHandler.fetchMany(['a', 'b'], async (keys) => keys.map(() => 2), { ttl: 60, sliding: true });
+
+      await vi.waitFor(() => expect(touchSpy).toHaveBeenCalledWith('test:v1:a', 60));
+      expect(touchSpy).not.toHaveBeenCalledWith('test:v1:b', 60);
+    });
+
+    it('should log touch failures without failing the fetch', async () => {
+      vi.spyOn(slidingBackend, 'touch').mockRejectedValue(new Error('touch failed'));
+      await slidingHandler.set('item', 'value');
+
+      expect(await slidingHandler.fetch('item', async () => 'other', { sliding: true })).toBe('value');
+
+      await vi.waitFor(() =>
+        expect(logEvents).toContainEqual(expect.objectContaining({ type: 'ERROR', key: 'test:v1:item' })));
+    });
+
+    it('should throw CacheConfigError when the backend does not support touch', async () => {
+      const plainHandler = createCacheHandler({ backend });
+      await expect(plainHandler.fetch('key', async () => 1, { sliding: true }))
+        .rejects.toThrow(CacheConfigError);
+      await expect(plainHandler.fetchMany(['key'], async () => [1], { sliding: true }))
+        .rejects.toThrow(CacheConfigError);
+    });
+  });
+});
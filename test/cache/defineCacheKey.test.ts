@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { defineCacheKey } from '../../src/cache/defineCacheKey';
+import { createCacheHandler } from '../../src/cache/createCacheHandler';
+import { MemoryCacheBackend } from '../../src/backends/memory';
+import { CacheConfigError, CacheHandler } from '../../src/types';
+
+interface Product {
+  id: number;
+  name: string;
+}
+
+describe('defineCacheKey', () => {
+  let backend: MemoryCacheBackend<unknown>;
+  let handler: CacheHandler<unknown>;
+
+  beforeEach(() => {
+    backend = new MemoryCacheBackend<unknown>();
+    handler = createCacheHandler({ backend, prefix: 'test', version: 'v1' });
+  });
+
+  afterEach(() => {
+    handler.dispose();
+  });
+
+  it('should build keys from the template', () => {
+    const productKey = defineCacheKey<Product>()('product:{id}:{locale}', { handler });
+
+    expect(productKey.template).toBe('product:{id}:{locale}');
+    expect(productKey.key({ id: 42, locale: 'en' })).toBe('product:42:en');
+  });
+
+  it('should fetch through the handler with the default TTL and tags', async () => {
+    const productKey = defineCacheKey<Product>()('product:{id}', {
+      handler,
+      ttl: 120,
+      tags: ({ id }) => [`product:${id}`],
+    });
+    const fetchSpy = vi.spyOn(handler, 'fetch');
+    const fetcher = vi.fn(async () => ({ id: 42, name: 'Lamp' }));
+
+    expect(await productKey.fetch({ id: 42 }, fetcher)).toEqual({ id: 42, name: 'Lamp' });
+    expect(await productKey.fetch({ id: 42 }, fetcher)).toEqual({ id: 42, name: 'Lamp' });
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(fetchSpy).toHaveBeenCalledWith('product:42', fetcher, { ttl: 120, tags: ['product:42'] });
+    expect(await backend.get('test:v1:product:42')).toMatchObject({ tags: ['product:42'] });
+  });
+
+  it('should let fetch options override the defaults and add tags', async () => {
+    const productKey = defineCacheKey<Product>()('product:{id}', { handler, ttl: 120, tags: ['products'] });
+    const fetchSpy = vi.spyOn(handler, 'fetch');
+    const fetcher = async () => ({ id: 1, name: 'Chair' });
+
+    await productKey.fetch({ id: 1 }, fetcher, { ttl: 10, tags: ['sale'] });
+
+    expect(fetchSpy).toHaveBeenCalledWith('product:1', fetcher, { ttl: 10, tags: ['products', 'sale'] });
+  });
+
+  it('should leave the handler defaults in place when no TTL is declared', async () => {
+    const productKey = defineCacheKey<Product>()('product:{id}', { handler });
+    const fetchSpy = vi.spyOn(handler, 'fetch');
+    const fetcher = async () => ({ id: 1, name: 'Chair' });
+
+    await productKey.fetch({ id: 1 }, fetcher);
+
+    expect(fetchSpy).toHaveBeenCalledWith('product:1', fetcher, { tags: undefined });
+  });
+
+  it('should invalidate the key for the given parameters', async () => {
+    const productKey = defineCacheKey<Product>()('product:{id}', { handler });
+    await productKey.fetch({ id: 1 }, async () => ({ id: 1, name: 'Chair' }));
+    await productKey.fetch({ id: 2 }, async () => ({ id: 2, name: 'Table' }));
+
+    await productKey.invalidate({ id: 1 });
+
+    expect(await handler.has('product:1')).toBe(false);
+    expect(await handler.has('product:2')).toBe(true);
+  });
+
+  it('should throw CacheConfigError for missing parameters at runtime', () => {
+    const productKey = defineCacheKey<Product>()('product:{id}', { handler });
+
+    expect(() => productKey.key({} as { id: number })).toThrow(CacheConfigError);
+  });
+
+  it('should reject rather than throw from fetch and invalidate for missing parameters', async () => {
+    const productKey = defineCacheKey<Product>()('product:{id}', { handler });
+    const fetcher = vi.fn(async () => ({ id: 1, name: 'Chair' }));
+
+    const pending = productKey.fetch({} as { id: number }, fetcher);
+    expect(pending).toBeInstanceOf(Promise);
+    await expect(pending).rejects.toThrow(CacheConfigError);
+    await expect(productKey.invalidate({} as { id: number })).rejects.toThrow(CacheConfigError);
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown parameters and mismatched value types at compile time', () => {
+    const productKey = defineCacheKey<Product>()('product:{id}', { handler });
+
+    // @ts-expect-error - 'slug' is not a placeholder of the template
+    expect(() => productKey.key({ slug: 'lamp' })).toThrow(CacheConfigError);
+    // @ts-expect-error - the fetcher must resolve to a Product
+    const fetchWrongType = () => productKey.fetch({ id: 1 }, async () => 'not a product');
+    expect(fetchWrongType).toBeTypeOf('function');
+  });
+});
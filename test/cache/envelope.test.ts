@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { wrapValue, unwrapValue, isEnvelope, getMetadata, estimateSize } from '../../src/cache/envelope';
+
+describe('envelope', () => {
+  it('should wrap values with metadata', () => {
+    const envelope = wrapValue({ id: 1 }, { createdAt: 0, expiresAt: 1000, fetchDurationMs: 50 });
+    expect(isEnvelope(envelope)).toBe(true);
+    expect(envelope.value).toEqual({ id: 1 });
+    expect(envelope.expiresAt).toBe(1000);
+    expect(envelope.fetchDurationMs).toBe(50);
+  });
+
+  it('should unwrap envelopes', () => {
+    const envelope = wrapValue('value', { createdAt: 0, expiresAt: 1000, fetchDurationMs: 50 });
+    const { value, envelope: unwrapped } = unwrapValue<string>(envelope);
+    expect(value).toBe('value');
+    expect(unwrapped).toBe(envelope);
+  });
+
+  it('should survive a JSON round trip', () => {
+    const envelope = wrapValue([1, 2], { createdAt: 0, expiresAt: 1000, fetchDurationMs: 50 });
+    const { value, envelope: unwrapped } = unwrapValue(JSON.parse(JSON.stringify(envelope)));
+    expect(value).toEqual([1, 2]);
+    expect(unwrapped?.expiresAt).toBe(1000);
+  });
+
+  it('should pass raw values through unchanged', () => {
+    for (const raw of [42, 'text', null, undefined, { id: 1 }, [1, 2], { __cachex: 2 }]) {
+      const { value, envelope } = unwrapValue(raw);
+      expect(value).toBe(raw);
+      expect(envelope).toBeUndefined();
+    }
+  });
+
+  it('should extract metadata without the marker and value', () => {
+    const envelope = wrapValue('value', { createdAt: 0, expiresAt: 1000, fetchDurationMs: 50, tags: ['a'] });
+    expect(getMetadata(envelope)).toEqual({ createdAt: 0, expiresAt: 1000, fetchDurationMs: 50, tags: ['a'] });
+  });
+
+  it('should estimate sizes from the JSON form', () => {
+    expect(estimateSize('abc')).toBe(5);
+    expect(estimateSize(undefined)).toBe(0);
+    expect(estimateSize(BigInt(1))).toBe(Infinity);
+  });
+});
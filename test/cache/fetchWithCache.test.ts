@@ -1,7 +1,8 @@
-import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import { describe, it, expect, beforeEach, afterAll, vi } from 'vitest';
 import { fetchWithCache } from '../../src/cache/fetchWithCache';
 import { CacheBackend, CacheLogger, CacheTimeoutError } from '../../src/types';
 import { closeGlobalRedisClient } from '../../src/backends';
+import { MemoryCacheBackend } from '../../src/backends/memory';
 
 // Simple in-memory backend for testing
 class MemoryBackend<T> implements CacheBackend<T> {
@@ -17,10 +18,10 @@ class MemoryBackend<T> implements CacheBackend<T> {
     this.store.delete(key);
   }
   async lock(key: string, ttl: number) {
-    if (this.locks.has(key)) return false;
+    if (this.locks.has(key)) return null;
     this.locks.add(key);
     setTimeout(() => this.locks.delete(key), ttl * 1000);
-    return true;
+    return { token: key };
   }
   async unlock(key: string) {
     this.locks.delete(key);
@@ -57,7 +58,7 @@ describe('fetchWithCache', () => {
   it('fetches, sets, and returns value on MISS, logs MISS and LOCK', async () => {
     const result = await fetchWithCache('bar', async () => 123, { backend, logger });
     expect(result).toBe(123);
-    expect(await backend.get('next-cachex:bar')).toBe(123);
+    expect(await backend.get('next-cachex:bar')).toMatchObject({ value: 123 });
     expect(logEvents.some(e => e.type === 'MISS')).toBe(true);
     expect(logEvents.some(e => e.type === 'LOCK')).toBe(true);
   });
@@ -112,4 +113,24 @@ describe('fetchWithCache', () => {
     });
     expect(result).toBe('temp-value');
   });
+
+  it('disposes the temporary handler after each fetch', async () => {
+    const memoryBackend = new MemoryCacheBackend<unknown>();
+    const subscribe = memoryBackend.subscribe.bind(memoryBackend);
+    const unsubscribes: Array<ReturnType<typeof vi.fn>> = [];
+    vi.spyOn(memoryBackend, 'subscribe').mockImplementation(async (...args) => {
+      const unsubscribe = vi.fn(await subscribe(...args));
+      unsubscribes.push(unsubscribe);
+      return unsubscribe;
+    });
+
+    for (let i = 0; i < 3; i++) {
+      await fetchWithCache(`disposed-${i}`, async () => i, { backend: memoryBackend });
+    }
+
+    await vi.waitFor(() => {
+      expect(unsubscribes).toHaveLength(3);
+      for (const unsubscribe of unsubscribes) expect(unsubscribe).toHaveBeenCalledTimes(1);
+    });
+  });
 });
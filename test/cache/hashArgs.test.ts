@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { hashArgs } from '../../src/cache/hashArgs';
+import { CacheSerializationError } from '../../src/types';
+
+describe('hashArgs', () => {
+  it('should return a SHA-1 hex digest', () => {
+    expect(hashArgs([1, 'a'])).toMatch(/^[0-9a-f]{40}$/);
+  });
+
+  it('should ignore object key order', () => {
+    expect(hashArgs([{ a: 1, b: { c: 2, d: 3 } }])).toBe(hashArgs([{ b: { d: 3, c: 2 }, a: 1 }]));
+  });
+
+  it('should tell apart values JSON would conflate', () => {
+    const hashes = [
+      hashArgs([undefined]),
+      hashArgs([null]),
+      hashArgs([NaN]),
+      hashArgs(['1']),
+      hashArgs([1]),
+      hashArgs([BigInt(1)]),
+      hashArgs([new Date(0)]),
+      hashArgs([new Date(0).toISOString()]),
+      hashArgs([new Set([1])]),
+      hashArgs([new Map([[1, 1]])]),
+      hashArgs([[1]]),
+    ];
+    expect(new Set(hashes).size).toBe(hashes.length);
+  });
+
+  it('should treat undefined properties like missing ones', () => {
+    expect(hashArgs([{ a: 1, b: undefined }])).toBe(hashArgs([{ a: 1 }]));
+  });
+
+  it('should ignore Set and Map insertion order', () => {
+    expect(hashArgs([new Set([1, 2])])).toBe(hashArgs([new Set([2, 1])]));
+    expect(hashArgs([new Map([['a', 1], ['b', 2]])])).toBe(hashArgs([new Map([['b', 2], ['a', 1]])]));
+  });
+
+  it('should allow repeated (non-circular) references', () => {
+    const shared = { id: 1 };
+    expect(() => hashArgs([shared, shared])).not.toThrow();
+  });
+
+  it('should serialize URLs and other class instances through toJSON', () => {
+    class ObjectId {
+      #id: string;
+      constructor(id: string) {
+        this.#id = id;
+      }
+      toJSON() {
+        return this.#id;
+      }
+    }
+
+    expect(hashArgs([new URL('https://a/')])).not.toBe(hashArgs([new URL('https://b/')]));
+    expect(hashArgs([new URL('https://a/')])).toBe(hashArgs([new URL('https://a/')]));
+    expect(hashArgs([new URL('https://a/')])).not.toBe(hashArgs(['https://a/']));
+    expect(hashArgs([new ObjectId('a')])).not.toBe(hashArgs([new ObjectId('b')]));
+    expect(hashArgs([/a/g])).not.toBe(hashArgs([/b/g]));
+  });
+
+  it('should throw CacheSerializationError for class instances without toJSON', () => {
+    class Secret {
+      #value: string;
+      constructor(value: string) {
+        this.#value = value;
+      }
+      get length() {
+        return this.#value.length;
+      }
+    }
+
+    expect(() => hashArgs([new Secret('a')])).toThrow(CacheSerializationError);
+    expect(() => hashArgs([{ nested: new Secret('a') }])).toThrow(CacheSerializationError);
+    expect(() => hashArgs([Object.create(null)])).not.toThrow();
+  });
+
+  it('should throw CacheSerializationError for functions and circular arguments', () => {
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+
+    expect(() => hashArgs([() => 1])).toThrow(CacheSerializationError);
+    expect(() => hashArgs([circular])).toThrow(CacheSerializationError);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createInvalidationBus } from '../../src/cache/invalidationBus';
+import { MemoryCacheBackend } from '../../src/backends/memory';
+import type { CacheSubscribeOptions } from '../../src/types';
+
+const createHandlers = () => ({ evict: vi.fn(), flush: vi.fn(), onError: vi.fn() });
+
+describe('createInvalidationBus', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should evict keys published by other buses and ignore its own', async () => {
+    const backend = new MemoryCacheBackend<unknown>();
+    const first = createHandlers();
+    const second = createHandlers();
+    // The memory backend registers listeners synchronously when subscribe is called
+    const firstBus = createInvalidationBus(backend, 'l1:invalidate', first);
+    const secondBus = createInvalidationBus(backend, 'l1:invalidate', second);
+
+    await firstBus.publish(['a', 'b']);
+
+    expect(first.evict).not.toHaveBeenCalled();
+    expect(second.evict).toHaveBeenCalledWith(['a', 'b']);
+
+    firstBus.dispose();
+    secondBus.dispose();
+  });
+
+  it('should not publish an empty key list', async () => {
+    const backend = new MemoryCacheBackend<unknown>();
+    const publishSpy = vi.spyOn(backend, 'publish');
+    const bus = createInvalidationBus(backend, 'channel', createHandlers());
+
+    await bus.publish([]);
+
+    expect(publishSpy).not.toHaveBeenCalled();
+    bus.dispose();
+  });
+
+  it('should ignore malformed messages', async () => {
+    const backend = new MemoryCacheBackend<unknown>();
+    const handlers = createHandlers();
+    const bus = createInvalidationBus(backend, 'channel', handlers);
+
+    await backend.publish('channel', 'not json');
+    await backend.publish('channel', JSON.stringify({ source: 'other' }));
+
+    expect(handlers.evict).not.toHaveBeenCalled();
+    bus.dispose();
+  });
+
+  it('should report publish failures instead of throwing', async () => {
+    const backend = new MemoryCacheBackend<unknown>();
+    vi.spyOn(backend, 'publish').mockRejectedValue(new Error('publish failed'));
+    const handlers = createHandlers();
+    const bus = createInvalidationBus(backend, 'channel', handlers);
+
+    await expect(bus.publish(['a'])).resolves.toBeUndefined();
+
+    expect(handlers.onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'publish failed' }));
+    bus.dispose();
+  });
+
+  it('should retry a failed subscribe with backoff and flush once subscribed', async () => {
+    vi.useFakeTimers();
+    const backend = new MemoryCacheBackend<unknown>();
+    const subscribe = backend.subscribe.bind(backend);
+    const subscribeSpy = vi.spyOn(backend, 'subscribe')
+      .mockRejectedValueOnce(new Error('down'))
+      .mockRejectedValueOnce(new Error('still down'))
+      .mockImplementation(subscribe);
+    const handlers = createHandlers();
+
+    const bus = createInvalidationBus(backend, 'channel', handlers);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(handlers.onError).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(subscribeSpy).toHaveBeenCalledTimes(2);
+    expect(handlers.flush).not.toHaveBeenCalled();
+
+    // The delay doubles after every failure
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(subscribeSpy).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(subscribeSpy).toHaveBeenCalledTimes(3);
+    expect(handlers.flush).toHaveBeenCalledTimes(1);
+    await backend.publish('channel', JSON.stringify({ source: 'other', keys: ['a'] }));
+    expect(handlers.evict).toHaveBeenCalledWith(['a']);
+    bus.dispose();
+  });
+
+  it('should flush when the backend reconnects', async () => {
+    const backend = new MemoryCacheBackend<unknown>();
+    let subscribeOptions: CacheSubscribeOptions | undefined;
+    vi.spyOn(backend, 'subscribe').mockImplementation(async (_channel, _listener, options?: CacheSubscribeOptions) => {
+      subscribeOptions = options;
+      return async () => {};
+    });
+    const handlers = createHandlers();
+    const bus = createInvalidationBus(backend, 'channel', handlers);
+    await vi.waitFor(() => expect(subscribeOptions).toBeDefined());
+
+    subscribeOptions?.onReconnect?.();
+
+    expect(handlers.flush).toHaveBeenCalledTimes(1);
+    bus.dispose();
+  });
+
+  it('should unsubscribe and stop retrying on dispose', async () => {
+    vi.useFakeTimers();
+    const backend = new MemoryCacheBackend<unknown>();
+    const subscribeSpy = vi.spyOn(backend, 'subscribe').mockRejectedValue(new Error('down'));
+    const bus = createInvalidationBus(backend, 'channel', createHandlers());
+    await vi.advanceTimersByTimeAsync(0);
+
+    bus.dispose();
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(subscribeSpy).toHaveBeenCalledTimes(1);
+
+    subscribeSpy.mockRestore();
+    const handlers = createHandlers();
+    const subscribed = createInvalidationBus(backend, 'channel', handlers);
+    await vi.advanceTimersByTimeAsync(0);
+
+    subscribed.dispose();
+    await vi.advanceTimersByTimeAsync(0);
+    await backend.publish('channel', JSON.stringify({ source: 'other', keys: ['a'] }));
+    expect(handlers.evict).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createL1Cache, L1Cache } from '../../src/cache/l1Cache';
+
+describe('createL1Cache', () => {
+  let cache: L1Cache;
+
+  afterEach(() => {
+    cache?.dispose();
+    vi.useRealTimers();
+  });
+
+  it('should store and return values', () => {
+    cache = createL1Cache();
+    cache.set('a', 1);
+    expect(cache.get('a')).toEqual({ value: 1 });
+    expect(cache.get('missing')).toBeUndefined();
+  });
+
+  it('should distinguish cached undefined from a miss', () => {
+    cache = createL1Cache();
+    cache.set('a', undefined);
+    expect(cache.get('a')).toEqual({ value: undefined });
+  });
+
+  it('should expire entries after the configured ttl', () => {
+    vi.useFakeTimers();
+    cache = createL1Cache({ ttl: 10 });
+    cache.set('a', 1);
+
+    vi.advanceTimersByTime(9_000);
+    expect(cache.get('a')).toEqual({ value: 1 });
+
+    vi.advanceTimersByTime(1_000);
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  it('should evict the least recently used entry beyond maxEntries', () => {
+    cache = createL1Cache({ maxEntries: 2 });
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a'); // a is now most recently used
+    cache.set('c', 3);
+
+    expect(cache.get('a')).toEqual({ value: 1 });
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toEqual({ value: 3 });
+    expect(cache.size).toBe(2);
+  });
+
+  it('should evict entries to stay within maxBytes', () => {
+    cache = createL1Cache({ maxBytes: 20 });
+    cache.set('a', 'x'.repeat(8)); // 10 bytes as JSON
+    cache.set('b', 'y'.repeat(8));
+    cache.set('c', 'z'.repeat(8));
+
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.get('b')).toBeDefined();
+    expect(cache.get('c')).toBeDefined();
+  });
+
+  it('should not store values larger than maxBytes or that cannot be sized', () => {
+    cache = createL1Cache({ maxBytes: 5 });
+    cache.set('big', 'x'.repeat(10));
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+    cache.set('circular', circular);
+
+    expect(cache.size).toBe(0);
+  });
+
+  it('should store nothing when disabled', () => {
+    cache = createL1Cache({ enabled: false });
+    cache.set('a', 1);
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  it('should report whether it stores anything', () => {
+    expect(createL1Cache().enabled).toBe(true);
+    expect(createL1Cache({ enabled: false }).enabled).toBe(false);
+    expect(createL1Cache({ ttl: 0 }).enabled).toBe(false);
+    expect(createL1Cache({ maxEntries: 0 }).enabled).toBe(false);
+  });
+
+  it('should prune entries past the stale window periodically', () => {
+    vi.useFakeTimers();
+    cache = createL1Cache({ ttl: 1, staleTtl: 2 });
+    cache.set('a', 1);
+
+    vi.advanceTimersByTime(5_000);
+    expect(cache.size).toBe(0);
+  });
+
+  it('should keep expired entries available as stale copies', () => {
+    vi.useFakeTimers();
+    cache = createL1Cache({ ttl: 1, staleTtl: 10 });
+    cache.set('a', 1);
+
+    vi.advanceTimersByTime(5_000);
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.getStale('a')).toEqual({ value: 1 });
+
+    vi.advanceTimersByTime(6_000);
+    expect(cache.getStale('a')).toBeUndefined();
+  });
+
+  it('should not keep stale copies when staleTtl is 0', () => {
+    vi.useFakeTimers();
+    cache = createL1Cache({ ttl: 1, staleTtl: 0 });
+    cache.set('a', 1);
+
+    vi.advanceTimersByTime(1_000);
+    expect(cache.getStale('a')).toBeUndefined();
+  });
+
+  it('should delete and clear entries', () => {
+    cache = createL1Cache();
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.delete('a');
+    expect(cache.get('a')).toBeUndefined();
+    cache.clear();
+    expect(cache.size).toBe(0);
+  });
+
+  it('should invalidate keys or everything and count invalidations', () => {
+    cache = createL1Cache();
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.set('c', 3);
+
+    cache.invalidate(['a']);
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.get('b')).toEqual({ value: 2 });
+
+    cache.invalidate(null);
+    expect(cache.size).toBe(0);
+    expect(cache.generation).toBe(2);
+  });
+
+  it('should keep entries for trackedTtl while tracking', () => {
+    vi.useFakeTimers();
+    cache = createL1Cache({ ttl: 1, trackedTtl: 60 });
+    cache.setTracking(true);
+    cache.set('a', 1);
+
+    vi.advanceTimersByTime(59_000);
+    expect(cache.get('a')).toEqual({ value: 1 });
+    vi.advanceTimersByTime(1_000);
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  it('should use the short ttl for values loaded before an invalidation', () => {
+    vi.useFakeTimers();
+    cache = createL1Cache({ ttl: 1, trackedTtl: 60 });
+    cache.setTracking(true);
+    const generation = cache.generation;
+    cache.invalidate(['other']);
+
+    cache.set('a', 1, generation);
+
+    vi.advanceTimersByTime(1_000);
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  it('should drop all entries when tracking stops', () => {
+    cache = createL1Cache();
+    cache.setTracking(true);
+    cache.set('a', 1);
+
+    cache.setTracking(false);
+
+    expect(cache.size).toBe(0);
+  });
+
+  it('should stop the prune timer on dispose', () => {
+    vi.useFakeTimers();
+    cache = createL1Cache();
+    expect(vi.getTimerCount()).toBe(1);
+
+    cache.dispose();
+
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { validateValue } from '../../src/cache/schema';
+
+interface Product {
+  id: number;
+}
+
+const isProduct = (value: unknown): value is Product =>
+  typeof value === 'object' && value !== null && typeof (value as Product).id === 'number';
+
+describe('validateValue', () => {
+  it('should use safeParse when the schema has it', () => {
+    const schema = {
+      safeParse: (value: unknown) => isProduct(value)
+        ? { success: true as const, data: value }
+        : { success: false as const, error: new Error('Expected a product') },
+    };
+
+    expect(validateValue(schema, { id: 1 })).toEqual({ success: true, data: { id: 1 } });
+    expect(validateValue(schema, { id: '1' })).toEqual({ success: false, error: new Error('Expected a product') });
+  });
+
+  it('should use parse and catch what it throws', () => {
+    const error = new Error('Expected a product');
+    const schema = {
+      parse: (value: unknown): Product => {
+        if (!isProduct(value)) throw error;
+        return value;
+      },
+    };
+
+    expect(validateValue(schema, { id: 1 })).toEqual({ success: true, data: { id: 1 } });
+    expect(validateValue(schema, null)).toEqual({ success: false, error });
+  });
+
+  it('should accept plain validator functions and keep transformed values', () => {
+    const schema = (value: unknown) => ({ id: Number((value as { id: unknown }).id) });
+
+    expect(validateValue(schema, { id: '7' })).toEqual({ success: true, data: { id: 7 } });
+  });
+});
@@ -7,6 +7,10 @@ import {
   CacheSerializationError,
   CacheBackendError,
   CacheConfigError,
+  CacheFencingError,
+  CacheFetchTimeoutError,
+  CacheCircuitOpenError,
+  CacheValidationError,
 } from '../src/errors';
 
 describe('Error Types', () => {
@@ -43,6 +47,14 @@ describe('Error Types', () => {
     expect(error.name).toBe('CacheSerializationError');
   });
 
+  it('should create CacheValidationError with correct inheritance and cause', () => {
+    const issues = [{ path: ['id'], message: 'Required' }];
+    const error = new CacheValidationError('Validation error', issues);
+    expect(error).toBeInstanceOf(CacheSerializationError);
+    expect(error.name).toBe('CacheValidationError');
+    expect(error.cause).toBe(issues);
+  });
+
   it('should create CacheBackendError with correct inheritance and cause', () => {
     const cause = new Error('Original error');
     const error = new CacheBackendError('Backend error', cause);
@@ -57,6 +69,31 @@ describe('Error Types', () => {
     expect(error.name).toBe('CacheConfigError');
   });
 
+  it('should carry the operation and key on CacheTimeoutError', () => {
+    const error = new CacheTimeoutError('Cache get timed out', { operation: 'get', key: 'posts' });
+    expect(error.operation).toBe('get');
+    expect(error.key).toBe('posts');
+  });
+
+  it('should create CacheFetchTimeoutError as a CacheTimeoutError', () => {
+    const error = new CacheFetchTimeoutError('Fetch timeout');
+    expect(error).toBeInstanceOf(CacheTimeoutError);
+    expect(error.name).toBe('CacheFetchTimeoutError');
+  });
+
+  it('should create CacheCircuitOpenError as a CacheBackendError', () => {
+    const error = new CacheCircuitOpenError('Circuit open');
+    expect(error).toBeInstanceOf(CacheBackendError);
+    expect(error.name).toBe('CacheCircuitOpenError');
+  });
+
+  it('should create CacheFencingError as a CacheLockError', () => {
+    const error = new CacheFencingError('Fencing error');
+    expect(error).toBeInstanceOf(CacheLockError);
+    expect(error).toBeInstanceOf(CacheError);
+    expect(error.name).toBe('CacheFencingError');
+  });
+
   it('should use error types in try/catch blocks correctly', () => {
     try {
       throw new CacheTimeoutError('Test timeout');
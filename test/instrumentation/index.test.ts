@@ -16,10 +16,10 @@ class MemoryBackend<T> implements CacheBackend<T> {
     this.store.delete(key);
   }
   async lock(key: string, ttl: number) {
-    if (this.locks.has(key)) return false;
+    if (this.locks.has(key)) return null;
     this.locks.add(key);
     setTimeout(() => this.locks.delete(key), ttl * 1000);
-    return true;
+    return { token: key };
   }
   async unlock(key: string) {
     this.locks.delete(key);
@@ -39,7 +39,18 @@ describe('Instrumentation', () => {
     handler = {
       backend,
       fetch: vi.fn(),
+      fetchMany: vi.fn(),
+      wrap: vi.fn(),
+      inspect: vi.fn(),
+      get: vi.fn(),
+      peek: vi.fn(),
+      has: vi.fn(),
+      set: vi.fn(),
+      delete: vi.fn(),
       getFullKey: (key: string) => `test:${key}`,
+      invalidateTag: vi.fn(),
+      invalidateTags: vi.fn(),
+      dispose: vi.fn(),
     };
   });
 
@@ -141,7 +152,18 @@ describe('Instrumentation', () => {
           // clear method intentionally omitted
         } as CacheBackend<string | { nested: boolean }>,
         fetch: vi.fn(),
+        fetchMany: vi.fn(),
+        wrap: vi.fn(),
+        inspect: vi.fn(),
+        get: vi.fn(),
+        peek: vi.fn(),
+        has: vi.fn(),
+        set: vi.fn(),
+        delete: vi.fn(),
         getFullKey: (key: string) => `test:${key}`,
+        invalidateTag: vi.fn(),
+        invalidateTags: vi.fn(),
+        dispose: vi.fn(),
       };
 
       await expect(clearCache(handlerWithoutClear)).rejects.toThrow(
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextCacheHandler, createNextCacheHandler } from '../../src/next/incrementalCache';
+import { createCacheHandler } from '../../src/cache/createCacheHandler';
+import { MemoryCacheBackend } from '../../src/backends/memory';
+import { CacheHandler } from '../../src/types';
+
+describe('NextCacheHandler', () => {
+  let backend: MemoryCacheBackend<unknown>;
+  let handler: CacheHandler<unknown>;
+  let nextHandler: NextCacheHandler;
+
+  beforeEach(() => {
+    backend = new MemoryCacheBackend<unknown>();
+    handler = createCacheHandler({ backend, prefix: 'app', version: 'v1' });
+    nextHandler = new NextCacheHandler({ handler });
+  });
+
+  it('should return null for missing entries', async () => {
+    expect(await nextHandler.get('missing')).toBeNull();
+  });
+
+  it('should store entries under the handler prefix and version', async () => {
+    await nextHandler.set('/page', { kind: 'PAGE', html: '<p>hi</p>' }, { revalidate: 60 });
+
+    expect(await backend.get('app:v1:/page')).toBeDefined();
+    const entry = await nextHandler.get('/page');
+    expect(entry?.value).toEqual({ kind: 'PAGE', html: '<p>hi</p>' });
+    expect(typeof entry?.lastModified).toBe('number');
+  });
+
+  it('should round-trip Buffers and Maps', async () => {
+    const segmentData = new Map([['/_index', Buffer.from('segment')]]);
+    await nextHandler.set('/app', {
+      kind: 'APP_PAGE',
+      html: '<html></html>',
+      rscData: Buffer.from('rsc-payload'),
+      segmentData,
+    });
+
+    const entry = await nextHandler.get('/app');
+    const value = entry?.value as unknown as { rscData: Buffer; segmentData: Map<string, Buffer> };
+    expect(Buffer.isBuffer(value.rscData)).toBe(true);
+    expect(value.rscData.toString()).toBe('rsc-payload');
+    expect(value.segmentData.get('/_index')?.toString()).toBe('segment');
+  });
+
+  it('should delete entries when set with null', async () => {
+    await nextHandler.set('/page', { kind: 'PAGE', html: 'x' });
+    await nextHandler.set('/page', null);
+    expect(await nextHandler.get('/page')).toBeNull();
+  });
+
+  it('should use revalidate plus staleTtl as backend TTL', async () => {
+    const setSpy = vi.spyOn(backend, 'set');
+    nextHandler = new NextCacheHandler({ handler, staleTtl: 100 });
+
+    await nextHandler.set('/page', { kind: 'PAGE' }, { revalidate: 60 });
+    expect(setSpy).toHaveBeenCalledWith('app:v1:/page', expect.any(Object), { ttl: 160 });
+
+    await nextHandler.set('/page', { kind: 'PAGE' }, { cacheControl: { revalidate: 60, expire: 500 } });
+    expect(setSpy).toHaveBeenLastCalledWith('app:v1:/page', expect.any(Object), { ttl: 500 });
+
+    await nextHandler.set('/page', { kind: 'PAGE' }, { revalidate: false });
+    expect(setSpy).toHaveBeenLastCalledWith('app:v1:/page', expect.any(Object), { ttl: undefined });
+  });
+
+  it('should skip the write when another writer holds the lock', async () => {
+    await backend.lock('lock:app:v1:/page', 5);
+    await nextHandler.set('/page', { kind: 'PAGE' });
+    expect(await nextHandler.get('/page')).toBeNull();
+  });
+
+  describe('revalidateTag', () => {
+    it('should invalidate entries tagged via context', async () => {
+      await nextHandler.set('fetch-key', { kind: 'FETCH', data: {} }, { tags: ['posts'] });
+      expect(await nextHandler.get('fetch-key')).not.toBeNull();
+
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await nextHandler.revalidateTag('posts');
+
+      expect(await nextHandler.get('fetch-key')).toBeNull();
+    });
+
+    it('should invalidate entries tagged via x-next-cache-tags header', async () => {
+      await nextHandler.set('/blog', {
+        kind: 'APP_PAGE',
+        headers: { 'x-next-cache-tags': '_N_T_/layout,blog' },
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await nextHandler.revalidateTag(['blog']);
+
+      expect(await nextHandler.get('/blog')).toBeNull();
+    });
+
+    it('should honour soft tags passed on get', async () => {
+      await nextHandler.set('/blog', { kind: 'APP_PAGE' });
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await nextHandler.revalidateTag('_N_T_/blog');
+
+      expect(await nextHandler.get('/blog')).not.toBeNull();
+      expect(await nextHandler.get('/blog', { softTags: ['_N_T_/blog'] })).toBeNull();
+    });
+
+    it('should share revalidations between handler instances', async () => {
+      const otherPod = new NextCacheHandler({ handler });
+      await nextHandler.set('fetch-key', { kind: 'FETCH' }, { tags: ['products'] });
+
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await otherPod.revalidateTag('products');
+
+      expect(await nextHandler.get('fetch-key')).toBeNull();
+    });
+
+    it('should keep entries written after the revalidation', async () => {
+      await nextHandler.revalidateTag('posts');
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await nextHandler.set('fetch-key', { kind: 'FETCH' }, { tags: ['posts'] });
+
+      expect(await nextHandler.get('fetch-key')).not.toBeNull();
+    });
+  });
+
+  it('should treat resetRequestCache as a no-op', () => {
+    expect(() => nextHandler.resetRequestCache()).not.toThrow();
+  });
+
+  describe('createNextCacheHandler', () => {
+    it('should return a class Next.js can instantiate with its own context', async () => {
+      const HandlerClass = createNextCacheHandler({ handler });
+      const instance = new HandlerClass({ serverDistDir: '/tmp' });
+
+      expect(instance).toBeInstanceOf(NextCacheHandler);
+      await instance.set('/page', { kind: 'PAGE', html: 'x' });
+      expect((await new HandlerClass().get('/page'))?.value).toEqual({ kind: 'PAGE', html: 'x' });
+    });
+  });
+});
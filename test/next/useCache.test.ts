@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createUseCacheHandler, UseCacheEntry, UseCacheHandler } from '../../src/next/useCache';
+import { createCacheHandler } from '../../src/cache/createCacheHandler';
+import { MemoryCacheBackend } from '../../src/backends/memory';
+import { CacheHandler } from '../../src/types';
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(new TextEncoder().encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+async function readText(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return new Response(stream).text();
+}
+
+function entryOf(overrides: Partial<UseCacheEntry> = {}): UseCacheEntry {
+  return {
+    value: streamOf('hello ', 'world'),
+    tags: [],
+    stale: 0,
+    timestamp: Date.now(),
+    expire: 3600,
+    revalidate: 60,
+    ...overrides,
+  };
+}
+
+describe('createUseCacheHandler', () => {
+  let backend: MemoryCacheBackend<unknown>;
+  let handler: CacheHandler<unknown>;
+  let useCacheHandler: UseCacheHandler;
+
+  beforeEach(() => {
+    backend = new MemoryCacheBackend<unknown>();
+    handler = createCacheHandler({ backend, prefix: 'app', version: 'v1' });
+    useCacheHandler = createUseCacheHandler({ handler });
+  });
+
+  it('should return undefined for missing entries', async () => {
+    expect(await useCacheHandler.get('missing', [])).toBeUndefined();
+  });
+
+  it('should buffer streamed entries and replay them on get', async () => {
+    await useCacheHandler.set('key', Promise.resolve(entryOf({ tags: ['a'] })));
+
+    const entry = await useCacheHandler.get('key', []);
+    expect(entry).toBeDefined();
+    expect(entry?.tags).toEqual(['a']);
+    expect(entry?.revalidate).toBe(60);
+    expect(await readText((entry as UseCacheEntry).value)).toBe('hello world');
+
+    // Each get returns a fresh stream
+    const again = await useCacheHandler.get('key', []);
+    expect(await readText((again as UseCacheEntry).value)).toBe('hello world');
+  });
+
+  it('should store entries under the handler prefix with expire as TTL', async () => {
+    const setSpy = vi.spyOn(backend, 'set');
+    await useCacheHandler.set('key', Promise.resolve(entryOf({ expire: 120 })));
+    expect(setSpy).toHaveBeenCalledWith('app:v1:key', expect.any(Object), { ttl: 120 });
+  });
+
+  it('should ignore rejected pending entries', async () => {
+    await expect(useCacheHandler.set('key', Promise.reject(new Error('render failed'))))
+      .resolves.toBeUndefined();
+    expect(await useCacheHandler.get('key', [])).toBeUndefined();
+  });
+
+  it('should treat entries past their revalidate period as misses', async () => {
+    await useCacheHandler.set('key', Promise.resolve(entryOf({
+      timestamp: Date.now() - 61_000,
+      revalidate: 60,
+    })));
+    expect(await useCacheHandler.get('key', [])).toBeUndefined();
+  });
+
+  it('should expire entries by tag across handler instances', async () => {
+    await useCacheHandler.set('key', Promise.resolve(entryOf({ tags: ['posts'] })));
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    await createUseCacheHandler({ handler }).expireTags('posts');
+
+    expect(await useCacheHandler.get('key', [])).toBeUndefined();
+  });
+
+  it('should expire entries by soft tags', async () => {
+    await useCacheHandler.set('key', Promise.resolve(entryOf()));
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await useCacheHandler.expireTags('_N_T_/blog');
+
+    expect(await useCacheHandler.get('key', [])).toBeDefined();
+    expect(await useCacheHandler.get('key', ['_N_T_/blog'])).toBeUndefined();
+  });
+
+  it('should report the latest expiration of the given tags', async () => {
+    expect(await useCacheHandler.getExpiration('a', 'b')).toBe(0);
+
+    await useCacheHandler.expireTags('a');
+    const expiredA = await useCacheHandler.getExpiration('a');
+    expect(expiredA).toBeGreaterThan(0);
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await useCacheHandler.expireTags('b');
+    expect(await useCacheHandler.getExpiration('a', 'b')).toBeGreaterThan(expiredA);
+  });
+
+  it('should resolve refreshTags without doing anything', async () => {
+    await expect(useCacheHandler.refreshTags()).resolves.toBeUndefined();
+  });
+});
@@ -17,7 +17,7 @@ describe('Types', () => {
       get: async () => undefined,
       set: async () => {},
       del: async () => {},
-      lock: async () => true,
+      lock: async () => ({ token: 'token' }),
       unlock: async () => {},
       clear: async () => {},
     };
@@ -79,7 +79,7 @@ describe('Types', () => {
         get: async () => undefined,
         set: async () => {},
         del: async () => {},
-        lock: async () => true,
+        lock: async () => ({ token: 'token' }),
         unlock: async () => {},
       },
     };